@@ -0,0 +1,48 @@
+/**
+ * Aborts the controller whenever the signal is aborted (or immediately if it
+ * already has been), returns a function to stop forwarding the abort
+ */
+export function forwardAbort(
+  signal: AbortSignal | undefined,
+  controller: AbortController
+): () => void {
+  if (!signal) {
+    return () => {};
+  } else if (signal.aborted) {
+    controller.abort(signal.reason);
+    return () => {};
+  }
+
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
+
+/**
+ * Races the promise against the signal, rejecting with the abort reason
+ * if the signal is aborted first
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  } else if (signal.aborted) {
+    // the result is discarded, avoid an unhandled rejection
+    promise.catch(() => {});
+    return Promise.reject(signal.reason as Error);
+  }
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_resolve, reject) => {
+    onAbort = () => reject(signal.reason as Error);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+  return Promise.race([promise, aborted]).finally(() => {
+    if (onAbort) {
+      signal.removeEventListener("abort", onAbort);
+    }
+  });
+}
@@ -1,14 +1,29 @@
 import type { RequestConfig } from "./core-client";
 
-export class ApiError extends Error {
+export class ApiError<B = unknown> extends Error {
   request: RequestConfig;
   response: Response;
+  // body of the response parsed using the schema of its status in
+  // `responseSchemas` (`undefined` if there is none), or the body as
+  // received if it could not be decoded or validated
+  body: B;
+  // error raised while decoding or validating the body
+  cause?: unknown;
 
-  constructor(request: RequestConfig, response: Response) {
+  constructor(
+    request: RequestConfig,
+    response: Response,
+    body?: B,
+    cause?: unknown
+  ) {
     super(
       `${response.status} was returned from ${request.method} ${request.path}`
     );
     this.request = request;
     this.response = response;
+    this.body = body as B;
+    if (typeof cause !== "undefined") {
+      this.cause = cause;
+    }
   }
 }
@@ -1,13 +1,90 @@
 import type * as z from "zod";
-import type { ApiResponse } from "./core-client";
+import type {
+  ApiResponse,
+  HttpMethod,
+  RequestConfig,
+  RequestOptions,
+} from "./core-client";
+import type { RetryStrategy } from "./retry";
 import { BinaryResponse } from "./binary-response";
 import { JSON_PATTERN, TEXT_PATTERN } from "./content-type";
+import { raceAbort } from "./abort";
+import type { DecoderRegistry } from "./decoders";
+import { TimeoutError, withTimeout } from "./timeout";
+import { selectResponseSchema, type ResponseSchemas } from "./response-schemas";
+import {
+  validateResponse,
+  type ValidationErrorHandler,
+  type ValidationMode,
+} from "./validation";
+
+/**
+ * Statistics of a request, collected by the `CoreClient` while the request
+ * is in flight
+ */
+export interface RequestStats {
+  url: string;
+  attempts: number;
+  hedges: number;
+  startedAt: number;
+  headersAt?: number | undefined;
+}
+
+export interface ApiResponseMeta {
+  // final URL of the request, after following redirects
+  url: string;
+  status: number;
+  // value of the `X-Request-Id` (or `Request-Id`) response header
+  requestId: string | null;
+  // number of attempts sent including retries, 0 if the response was
+  // served from the cache or shared with a concurrent identical request
+  attempts: number;
+  // number of additional attempts sent by hedging
+  hedges: number;
+  timing: {
+    // time (ms since epoch) the request was made
+    start: number;
+    // time (ms) until the response headers were received
+    headers: number;
+    // time (ms) until the response body was read
+    total: number;
+  };
+}
 
 export interface ApiPromiseProps {
   responsePromise: Promise<ApiResponse>;
+  stats?: RequestStats | undefined;
   responseStream: boolean;
   responseRaw: boolean;
   responseSchema?: z.Schema | undefined;
+  // resolve to the status and data of the response, validated using the
+  // schema of its status
+  responseSchemas?: ResponseSchemas | undefined;
+  validation?: ValidationMode | undefined;
+  // decoders consulted before the built-in JSON, text and binary handling
+  decoders?: DecoderRegistry | undefined;
+  onValidationError?: ValidationErrorHandler | undefined;
+  // config of the request, included in validation errors
+  request?: RequestConfig | undefined;
+  method?: HttpMethod | undefined;
+  abortController?: AbortController | undefined;
+  totalTimeout?: number | undefined;
+  idleTimeout?: number | undefined;
+  // called once the request is complete, i.e. the request failed, its body
+  // has been consumed or the response has been handed to the caller
+  onComplete?: (() => void) | undefined;
+}
+
+/**
+ * Request that is only sent once its `ApiPromise` is consumed
+ */
+export interface LazyRequest {
+  cfg: RequestConfig;
+  // sends the request, linked to the abort controller of the promise
+  start: (
+    cfg: RequestConfig,
+    abortController: AbortController
+  ) => ApiPromiseProps;
 }
 
 export type EventSourceResponse<T> = AsyncIterableIterator<T>;
@@ -16,10 +93,113 @@ export class ApiPromise<T>
   extends Promise<T>
   implements AsyncIterator<T>, AsyncIterable<T>
 {
-  constructor(private responseProps: ApiPromiseProps) {
+  private props: ApiPromiseProps | undefined;
+  private lazyRequest: LazyRequest | undefined;
+  private abortController: AbortController;
+  private deadlineId: ReturnType<typeof setTimeout> | undefined;
+  // the response is consumed at most once, by either parsing its body or
+  // iterating its event stream, and the outcome is shared by all consumers
+  private parsed: Promise<T> | undefined;
+  private eventStream: AsyncIterableIterator<T> | undefined;
+
+  constructor(props: ApiPromiseProps | LazyRequest) {
     super((resolve) => {
       resolve(null as any);
     });
+
+    if ("start" in props) {
+      this.lazyRequest = props;
+      this.abortController = new AbortController();
+    } else {
+      this.abortController = props.abortController ?? new AbortController();
+      this.init(props);
+    }
+  }
+
+  private init(props: ApiPromiseProps): ApiPromiseProps {
+    this.props = props;
+    // failed requests that are never consumed must not cause unhandled
+    // rejections, consumers still receive the error
+    props.responsePromise.catch(() => this.complete());
+
+    const { totalTimeout } = props;
+    if (typeof totalTimeout !== "undefined") {
+      this.deadlineId = setTimeout(
+        () =>
+          this.abortController.abort(new TimeoutError("total", totalTimeout)),
+        totalTimeout
+      );
+      // the timer of a response that is never consumed must not keep the
+      // process alive
+      if (typeof this.deadlineId === "object") {
+        this.deadlineId.unref?.();
+      }
+    }
+
+    return props;
+  }
+
+  /**
+   * Props of the request, starting lazy requests on first access
+   */
+  private get responseProps(): ApiPromiseProps {
+    if (this.props) {
+      return this.props;
+    } else if (!this.lazyRequest) {
+      throw new Error("ApiPromise has neither a response nor a request");
+    }
+
+    const { cfg, start } = this.lazyRequest;
+    const { signal } = this.abortController;
+    if (signal.aborted) {
+      // requests cancelled before they were started are never sent
+      return this.init({
+        responsePromise: Promise.reject(signal.reason as Error),
+        responseRaw: cfg.responseRaw ?? false,
+        responseStream: cfg.responseStream ?? false,
+      });
+    }
+
+    return this.init(start(cfg, this.abortController));
+  }
+
+  /**
+   * Changes the options of a lazy request that has not been started yet
+   */
+  withOptions(opts: RequestOptions): this {
+    if (!this.lazyRequest || this.props) {
+      throw new Error(
+        "request options can only be changed before a lazy request is started"
+      );
+    }
+
+    const { cfg } = this.lazyRequest;
+    this.lazyRequest.cfg = { ...cfg, opts: { ...cfg.opts, ...opts } };
+    return this;
+  }
+
+  /**
+   * Retries a lazy request that has not been started yet according to the
+   * strategy
+   */
+  retry(retries: RetryStrategy = {}): this {
+    return this.withOptions({ retries });
+  }
+
+  /**
+   * Clears the total timeout and releases the request once it is complete
+   */
+  private complete(): void {
+    clearTimeout(this.deadlineId);
+    this.props?.onComplete?.();
+  }
+
+  /**
+   * Cancels the request, aborting it if it is still in flight, as well as
+   * any pending retries or in-progress event stream
+   */
+  cancel(reason?: unknown): void {
+    this.abortController.abort(reason);
   }
 
   /**
@@ -27,7 +207,48 @@ export class ApiPromise<T>
    * parsing the response.
    */
   async asResponse(): Promise<ApiResponse> {
-    return await this.responseProps.responsePromise;
+    try {
+      return await this.responseProps.responsePromise;
+    } finally {
+      this.complete();
+    }
+  }
+
+  /**
+   * Gets the parsed response together with the raw response (whose body
+   * has already been read) and metadata about the request
+   */
+  async withResponse(): Promise<{
+    data: T;
+    response: ApiResponse;
+    meta: ApiResponseMeta;
+  }> {
+    const response = await this.responseProps.responsePromise;
+    const data = this.responseProps.responseStream
+      ? (this.asEventStream() as unknown as T)
+      : await this.parseResponse();
+
+    const now = Date.now();
+    const stats = this.responseProps.stats;
+    const start = stats?.startedAt ?? now;
+    return {
+      data,
+      response,
+      meta: {
+        url: response.url || (stats?.url ?? ""),
+        status: response.status,
+        requestId:
+          response.headers.get("x-request-id") ??
+          response.headers.get("request-id"),
+        attempts: stats?.attempts ?? 1,
+        hedges: stats?.hedges ?? 0,
+        timing: {
+          start,
+          headers: (stats?.headersAt ?? now) - start,
+          total: now - start,
+        },
+      },
+    };
   }
 
   private getResponseType(contentType: string): "json" | "text" | "binary" {
@@ -40,22 +261,58 @@ export class ApiPromise<T>
     }
   }
 
-  private async parseResponse(): Promise<T> {
-    const { responsePromise, responseSchema, responseRaw } = this.responseProps;
+  /**
+   * Responses to HEAD requests as well as 1XX, 204, 205 & 304 responses
+   * never include a body (RFC 9110 6.4.1)
+   */
+  private hasNoBody(response: ApiResponse): boolean {
+    return (
+      this.responseProps.method === "head" ||
+      response.status < 200 ||
+      [204, 205, 304].includes(response.status)
+    );
+  }
+
+  private parseResponse(): Promise<T> {
+    if (!this.parsed) {
+      this.parsed = raceAbort(
+        this.parseBody(),
+        this.abortController.signal
+      ).finally(() => {
+        this.complete();
+      });
+    }
+
+    return this.parsed;
+  }
+
+  private async parseBody(): Promise<T> {
+    const { responsePromise, responseRaw, responseSchemas } =
+      this.responseProps;
     const response = await responsePromise;
 
-    if (response.status === 204) {
+    const data = await this.decodeBody(response);
+    return responseSchemas && !responseRaw
+      ? ({ status: response.status, data } as unknown as T)
+      : data;
+  }
+
+  private async decodeBody(response: ApiResponse): Promise<T> {
+    if (this.hasNoBody(response)) {
       return null as unknown as T;
-    } else if (responseRaw) {
+    } else if (this.responseProps.responseRaw) {
       return response as unknown as T;
     }
 
     const contentType = response.headers.get("content-type") ?? "";
+    const decode = this.responseProps.decoders?.find(contentType);
+    if (decode) {
+      return this.validate(await decode(response), response.status);
+    }
+
     switch (this.getResponseType(contentType)) {
-      case "json": {
-        const rawJson = await response.json();
-        return responseSchema ? responseSchema.parse(rawJson) : rawJson;
-      }
+      case "json":
+        return this.validate(await response.json(), response.status);
       case "text":
         return (await response.text()) as unknown as T;
       case "binary":
@@ -67,38 +324,78 @@ export class ApiPromise<T>
     }
   }
 
+  /**
+   * Validates response data against the schema of its status, or the
+   * response schema, according to the validation mode of the request
+   */
+  private validate(rawJson: unknown, status: number): T {
+    const {
+      responseSchema,
+      responseSchemas,
+      validation,
+      onValidationError,
+      request,
+    } = this.responseProps;
+    return validateResponse({
+      schema: selectResponseSchema(responseSchemas, status) ?? responseSchema,
+      rawJson,
+      status,
+      request,
+      mode: validation,
+      onError: onValidationError,
+    });
+  }
+
   private async *handleNodeStream(
-    stream: NodeJS.ReadableStream
+    stream: NodeJS.ReadableStream,
+    status: number
   ): AsyncIterableIterator<T> {
-    const { responseSchema } = this.responseProps;
     const parser = new EventSourceParser();
+    const iterator = stream[Symbol.asyncIterator]();
+    let finished = false;
 
-    for await (const chunk of stream) {
-      const text = chunk.toString();
-      const messages = parser.parse(text);
+    try {
+      while (true) {
+        const { done, value } = await this.nextChunk(iterator.next());
 
-      for (const message of messages) {
-        if (message.data) {
-          const rawJson = { data: JSON.parse(message.data) };
-          yield responseSchema ? responseSchema.parse(rawJson) : rawJson;
+        if (done) {
+          finished = true;
+          break;
+        }
+
+        const text = value.toString();
+        const messages = parser.parse(text);
+
+        for (const message of messages) {
+          if (message.data) {
+            const rawJson = { data: JSON.parse(message.data) };
+            yield this.validate(rawJson, status);
+          }
         }
       }
+    } finally {
+      if (!finished) {
+        // destroys the underlying stream
+        iterator.return?.().catch(() => {});
+      }
     }
   }
 
   private async *handleWebStream(
-    stream: ReadableStream<Uint8Array>
+    stream: ReadableStream<Uint8Array>,
+    status: number
   ): AsyncIterableIterator<T> {
-    const { responseSchema } = this.responseProps;
     const reader = stream.getReader();
     const decoder = new TextDecoder();
     const parser = new EventSourceParser();
+    let finished = false;
 
     try {
       while (true) {
-        const { done, value } = await reader.read();
+        const { done, value } = await this.nextChunk(reader.read());
 
         if (done) {
+          finished = true;
           break;
         }
 
@@ -108,16 +405,42 @@ export class ApiPromise<T>
         for (const message of messages) {
           if (message.data) {
             const rawJson = { data: JSON.parse(message.data) };
-            yield responseSchema ? responseSchema.parse(rawJson) : rawJson;
+            yield this.validate(rawJson, status);
           }
         }
       }
     } finally {
+      if (!finished) {
+        reader.cancel().catch(() => {});
+      }
       reader.releaseLock();
     }
   }
 
-  async *asEventStream(): AsyncIterableIterator<T> {
+  /**
+   * Waits for the next chunk of an event stream, enforcing the idle timeout
+   * and request cancellation
+   */
+  private nextChunk<C>(chunk: Promise<C>): Promise<C> {
+    return raceAbort(
+      withTimeout(chunk, "idle", this.responseProps.idleTimeout),
+      this.abortController.signal
+    );
+  }
+
+  /**
+   * Gets the event stream of the response, every call returns the same
+   * iterator
+   */
+  asEventStream(): AsyncIterableIterator<T> {
+    if (!this.eventStream) {
+      this.eventStream = this.readEventStream();
+    }
+
+    return this.eventStream;
+  }
+
+  private async *readEventStream(): AsyncIterableIterator<T> {
     const { responsePromise, responseStream } = this.responseProps;
 
     if (!responseStream) {
@@ -130,11 +453,18 @@ export class ApiPromise<T>
       throw new Error("Response body is undefined");
     }
 
-    // Check if we're in Node.js environment
-    if ("pipe" in response.body && typeof response.body.pipe === "function") {
-      yield* this.handleNodeStream(response.body);
-    } else {
-      yield* this.handleWebStream(response.body as ReadableStream<Uint8Array>);
+    try {
+      // Check if we're in Node.js environment
+      if ("pipe" in response.body && typeof response.body.pipe === "function") {
+        yield* this.handleNodeStream(response.body, response.status);
+      } else {
+        yield* this.handleWebStream(
+          response.body as ReadableStream<Uint8Array>,
+          response.status
+        );
+      }
+    } finally {
+      this.complete();
     }
   }
 
@@ -142,9 +472,7 @@ export class ApiPromise<T>
     const { responseStream } = this.responseProps;
 
     if (responseStream) {
-      const iterator = this.asEventStream();
-      const result = await iterator.next();
-      return result;
+      return this.asEventStream().next();
     }
 
     const value = await this.parseResponse();
@@ -152,21 +480,23 @@ export class ApiPromise<T>
   }
 
   [Symbol.asyncIterator](): AsyncIterator<T> {
-    const iterator = {
-      next: async (): Promise<IteratorResult<T>> => {
-        const { responseStream } = this.responseProps;
+    if (this.responseProps.responseStream) {
+      return this.asEventStream();
+    }
 
-        if (responseStream) {
-          const stream = this.asEventStream();
-          return stream.next();
-        }
+    return { next: () => this.next() };
+  }
 
-        const value = await this.parseResponse();
-        return { value, done: true };
-      },
-    };
+  /**
+   * Settles with the parsed response, or the event stream for streaming
+   * responses
+   */
+  private result(): Promise<T> {
+    if (this.responseProps.responseStream) {
+      return Promise.resolve(this.asEventStream() as unknown as T);
+    }
 
-    return iterator;
+    return this.parseResponse();
   }
 
   override then<Result1 = T, Result2 = never>(
@@ -179,10 +509,7 @@ export class ApiPromise<T>
       | undefined
       | null
   ): Promise<Result1 | Result2> {
-    if (this.responseProps.responseStream) {
-      return Promise.resolve(this.asEventStream() as unknown as Result1);
-    }
-    return this.parseResponse().then(onfulfilled, onrejected);
+    return this.result().then(onfulfilled, onrejected);
   }
 
   override catch<Result = never>(
@@ -191,11 +518,11 @@ export class ApiPromise<T>
       | undefined
       | null
   ): Promise<T | Result> {
-    return this.parseResponse().catch(onrejected);
+    return this.result().catch(onrejected);
   }
 
   override finally(onfinally?: (() => void) | undefined | null): Promise<T> {
-    return this.parseResponse().finally(onfinally);
+    return this.result().finally(onfinally);
   }
 }
 
@@ -2,14 +2,26 @@ import qs from "qs";
 import formUrlEncoded from "form-urlencoded";
 import { toBase64 } from "js-base64";
 import * as jsonpointer from "jsonpointer";
-import nodeFetch from "node-fetch";
 
 import { RUNTIME } from "./runtime";
 import type { RequestConfig } from "./core-client";
 import { ApiError } from "./api-error";
+import { defaultFetcher, type Fetcher } from "./fetch";
+
+/**
+ * Context of the client applying an auth provider to a request
+ */
+export interface AuthContext {
+  // transport of the client, used by providers that send requests of
+  // their own (e.g. OAuth2 token requests)
+  fetch?: Fetcher | undefined;
+}
 
 export interface AuthProvider {
-  applyAuth: (cfg: RequestConfig) => Promise<RequestConfig>;
+  applyAuth: (
+    cfg: RequestConfig,
+    context?: AuthContext
+  ) => Promise<RequestConfig>;
   setValue: (val?: string | undefined) => void;
 }
 
@@ -159,6 +171,9 @@ export type OAuth2ProviderProps = {
   credentialsLocation: "request_body" | "basic_authorization_header";
   bodyContent: "form" | "json";
   requestMutator: AuthProvider;
+  // transport used for access token requests, defaults to the
+  // transport of the `CoreClient` applying the provider
+  fetch?: Fetcher | undefined;
 
   // OAuth2 access token request values
   form?: OAuth2Password | OAuth2ClientCredentials | undefined;
@@ -176,7 +191,8 @@ export class OAuth2 implements AuthProvider {
   }
 
   async refresh(
-    form: OAuth2Password | OAuth2ClientCredentials
+    form: OAuth2Password | OAuth2ClientCredentials,
+    fetcher?: Fetcher | undefined
   ): Promise<{ accessToken: string; expiresAt: Date }> {
     const {
       baseUrl,
@@ -233,11 +249,8 @@ export class OAuth2 implements AuthProvider {
     }
 
     reqInit.headers = reqHeaders;
-    const fetcherFn =
-      RUNTIME.type === "node" || typeof fetch !== "function"
-        ? nodeFetch
-        : fetch;
-    const tokenRes = await fetcherFn(tokenUrl, reqInit as any);
+    const fetcherFn = this.props.fetch ?? fetcher ?? defaultFetcher;
+    const tokenRes = await fetcherFn(tokenUrl, reqInit);
     if (!tokenRes.ok) {
       throw new ApiError(
         {
@@ -264,9 +277,15 @@ export class OAuth2 implements AuthProvider {
     return { accessToken, expiresAt };
   }
 
-  async applyAuth(cfg: RequestConfig): Promise<RequestConfig> {
+  async applyAuth(
+    cfg: RequestConfig,
+    context?: AuthContext
+  ): Promise<RequestConfig> {
     if (this.props.form && !this.accessToken) {
-      const { accessToken, expiresAt } = await this.refresh(this.props.form);
+      const { accessToken, expiresAt } = await this.refresh(
+        this.props.form,
+        context?.fetch
+      );
       this.accessToken = accessToken;
       this.expiresAt = expiresAt;
     }
@@ -0,0 +1,207 @@
+/**
+ * Creates the request body, called for every attempt of a request so
+ * bodies that can only be read once (e.g. streams) can be retried
+ */
+export type BodyFactory = () => any;
+
+export const DEFAULT_REPLAY_BUFFER_SIZE = 1024 * 1024;
+
+export class BodyNotReplayableError extends Error {
+  constructor() {
+    super(
+      "the request body is a stream that has already been consumed and cannot be sent again, pass a function creating the body or increase `replayBufferSize`"
+    );
+    this.name = "BodyNotReplayableError";
+  }
+}
+
+export function isNodeStream(val: any): val is NodeJS.ReadableStream {
+  return (
+    typeof val === "object" &&
+    val !== null &&
+    typeof val.pipe === "function" &&
+    typeof val.on === "function"
+  );
+}
+
+export function isWebStream(val: any): val is ReadableStream<Uint8Array> {
+  return (
+    typeof val === "object" &&
+    val !== null &&
+    typeof val.getReader === "function"
+  );
+}
+
+/**
+ * Provides the request init of every attempt (including hedges) of a
+ * request.
+ *
+ * Bodies created by a factory are recreated for every attempt, stream bodies
+ * are buffered in memory up to `maxBufferSize` bytes before the first
+ * attempt. Streams exceeding the buffer size are sent once, further attempts
+ * raise a `BodyNotReplayableError`.
+ */
+export class ReplayableBody {
+  private init: RequestInit;
+  private rebuild: (() => RequestInit) | undefined;
+  private maxBufferSize: number;
+  private firstInit: Promise<RequestInit> | undefined;
+  private replayable: boolean = true;
+  private sends: number = 0;
+
+  constructor({
+    init,
+    rebuild,
+    maxBufferSize = DEFAULT_REPLAY_BUFFER_SIZE,
+  }: {
+    init: RequestInit;
+    // rebuilds the request init using a body factory
+    rebuild?: (() => RequestInit) | undefined;
+    maxBufferSize?: number | undefined;
+  }) {
+    this.init = init;
+    this.rebuild = rebuild;
+    this.maxBufferSize = maxBufferSize;
+  }
+
+  async nextInit(): Promise<RequestInit> {
+    const send = this.sends++;
+    if (this.rebuild) {
+      if (send === 0) {
+        return this.init;
+      }
+
+      // the content type may change with the body (e.g. multipart boundaries)
+      const rebuilt = this.rebuild();
+      return {
+        ...this.init,
+        headers: {
+          ...(this.init.headers as Record<string, string> | undefined),
+          ...(rebuilt.headers as Record<string, string> | undefined),
+        },
+        body: rebuilt.body ?? null,
+      };
+    }
+
+    if (!this.firstInit) {
+      this.firstInit = this.buffer();
+    }
+    const firstInit = await this.firstInit;
+    if (send === 0) {
+      return firstInit;
+    } else if (!this.replayable) {
+      throw new BodyNotReplayableError();
+    }
+
+    return this.init;
+  }
+
+  /**
+   * Buffers stream bodies, returns the request init of the first attempt
+   */
+  private async buffer(): Promise<RequestInit> {
+    const body: unknown = this.init.body;
+    if (!isNodeStream(body) && !isWebStream(body)) {
+      return this.init;
+    } else if (this.maxBufferSize <= 0) {
+      this.replayable = false;
+      return this.init;
+    }
+
+    const buffered = isNodeStream(body)
+      ? await bufferNodeStream(body, this.maxBufferSize)
+      : await bufferWebStream(body, this.maxBufferSize);
+    if (!buffered.complete) {
+      this.replayable = false;
+      return { ...this.init, body: buffered.body };
+    }
+
+    this.init = { ...this.init, body: buffered.body };
+    return this.init;
+  }
+}
+
+interface Buffered {
+  // whether the stream fit the buffer, otherwise the body is a stream of
+  // the buffered chunks followed by the remainder of the stream
+  complete: boolean;
+  body: any;
+}
+
+async function bufferNodeStream(
+  stream: NodeJS.ReadableStream,
+  maxSize: number
+): Promise<Buffered> {
+  const { PassThrough, Readable } = await import("node:stream");
+  // piping supports legacy streams (e.g. multipart forms) as well
+  const iterator = stream
+    .pipe(new PassThrough())
+    [Symbol.asyncIterator]() as AsyncIterator<Buffer | string>;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  while (size <= maxSize) {
+    const { value, done } = await iterator.next();
+    if (done) {
+      return { complete: true, body: Buffer.concat(chunks) };
+    }
+    const chunk = Buffer.from(value);
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+
+  async function* remainder() {
+    yield* chunks;
+    while (true) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  }
+  return { complete: false, body: Readable.from(remainder()) };
+}
+
+async function bufferWebStream(
+  stream: ReadableStream<Uint8Array>,
+  maxSize: number
+): Promise<Buffered> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size <= maxSize) {
+    const { value, done } = await reader.read();
+    if (done) {
+      const body = new Uint8Array(size);
+      let offset = 0;
+      for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return { complete: true, body };
+    }
+    chunks.push(value);
+    size += value.length;
+  }
+
+  return {
+    complete: false,
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk));
+      },
+      async pull(controller) {
+        const { value, done } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    }),
+  };
+}
@@ -0,0 +1,379 @@
+import type { ApiResponse, HttpMethod } from "./core-client";
+import { IDEMPOTENCY_KEY_HEADER, isSafeMethod } from "./retry";
+import { requestHeader } from "./header";
+
+/**
+ * Response stored by the cache, serializable so it may be persisted by
+ * any `CacheStore` implementation
+ */
+export interface CachedResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer | null;
+  // time (ms since epoch) the response was received or last revalidated
+  responseTime: number;
+  // values of the request headers named by the `Vary` response header
+  vary: Record<string, string | null>;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Storage backend of the HTTP cache
+ */
+export interface CacheStore {
+  get(key: string): MaybePromise<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+}
+
+/**
+ * In-memory store evicting the least recently used response once
+ * `maxEntries` is exceeded
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries: Map<string, CachedResponse> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // move to the end of the map, i.e. most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  set(key: string, value: CachedResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Sends the request with the given additional (conditional) headers,
+ * `background` requests are revalidations no caller is waiting on
+ */
+export type CacheSend = (
+  headers: Record<string, string>,
+  background: boolean
+) => Promise<ApiResponse>;
+
+// status codes that are cacheable by default (RFC 9110 15.1)
+const CACHEABLE_STATUS = [
+  200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501,
+];
+// status codes that must not include a body
+const NULL_BODY_STATUS = [204, 205, 304];
+// request headers left out of the cache key, besides the `Content-*`
+// headers of the request body and the `If-*` conditional headers
+const UNKEYED_HEADERS = [
+  "cache-control",
+  "pragma",
+  IDEMPOTENCY_KEY_HEADER.toLowerCase(),
+];
+
+/**
+ * Private HTTP cache for GET requests following RFC 9111
+ *
+ * Details:
+ *    https://www.rfc-editor.org/rfc/rfc9111
+ */
+export class HttpCache {
+  private store: CacheStore;
+
+  constructor(store: CacheStore = new MemoryCacheStore()) {
+    this.store = store;
+  }
+
+  async handle(
+    url: string,
+    reqInit: RequestInit,
+    send: CacheSend
+  ): Promise<ApiResponse> {
+    const method = reqInit.method ?? "GET";
+    if (method !== "GET") {
+      const response = await send({}, false);
+      const successful = response.status >= 200 && response.status < 400;
+      if (!isSafeMethod(method.toLowerCase() as HttpMethod) && successful) {
+        // unsafe methods invalidate the stored response (RFC 9111 4.4)
+        await this.store.delete(this.key(url, reqInit));
+      }
+      return response;
+    }
+
+    const reqCacheControl = parseCacheControl(
+      requestHeader(reqInit, "cache-control")
+    );
+    if ("no-store" in reqCacheControl) {
+      return send({}, false);
+    }
+
+    const key = this.key(url, reqInit);
+    const stored = await this.store.get(key);
+    const entry = stored && varyMatches(stored, reqInit) ? stored : undefined;
+
+    if (entry) {
+      const state = freshness(entry, reqCacheControl);
+      if (state === "fresh") {
+        return toResponse(entry);
+      } else if (state === "stale-while-revalidate") {
+        send(conditionalHeaders(entry), true)
+          .then((response) => this.update(key, entry, reqInit, response))
+          .catch(() => {});
+        return toResponse(entry);
+      }
+    }
+
+    const response = await send(entry ? conditionalHeaders(entry) : {}, false);
+    return this.update(key, entry, reqInit, response);
+  }
+
+  private key(url: string, reqInit: RequestInit): string {
+    // all headers (including credentials, whichever header carries them)
+    // are part of the key so responses are never shared between callers
+    // authenticating differently, except headers which change between
+    // otherwise identical requests or only describe the request body
+    const headers = Object.entries(
+      (reqInit.headers as Record<string, string> | undefined) ?? {}
+    )
+      .map(([k, v]) => [k.toLowerCase(), v])
+      .filter(([k]) => !isUnkeyedHeader(k ?? ""))
+      .sort(([a], [b]) => ((a ?? "") < (b ?? "") ? -1 : 1));
+
+    return JSON.stringify([url, headers]);
+  }
+
+  /**
+   * Stores the response if possible, a 304 response is replaced by the
+   * stored response it revalidated
+   */
+  private async update(
+    key: string,
+    entry: CachedResponse | undefined,
+    reqInit: RequestInit,
+    response: ApiResponse
+  ): Promise<ApiResponse> {
+    if (response.status === 304 && entry) {
+      const headers = new Map(entry.headers);
+      response.headers.forEach((value, name) => headers.set(name, value));
+      const revalidated: CachedResponse = {
+        ...entry,
+        headers: [...headers.entries()],
+        responseTime: Date.now(),
+      };
+      await this.store.set(key, revalidated);
+      return toResponse(revalidated);
+    } else if (!isStorable(response)) {
+      return response;
+    }
+
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => headers.push([name, value]));
+    const vary: Record<string, string | null> = {};
+    for (const name of parseVary(response.headers.get("vary"))) {
+      vary[name] = requestHeader(reqInit, name);
+    }
+
+    const stored: CachedResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: NULL_BODY_STATUS.includes(response.status)
+        ? null
+        : await response.arrayBuffer(),
+      responseTime: Date.now(),
+      vary,
+    };
+    await this.store.set(key, stored);
+    return toResponse(stored);
+  }
+}
+
+function isUnkeyedHeader(name: string): boolean {
+  return (
+    UNKEYED_HEADERS.includes(name) ||
+    name.startsWith("content-") ||
+    name.startsWith("if-")
+  );
+}
+
+function isStorable(response: ApiResponse): boolean {
+  const cacheControl = parseCacheControl(response.headers.get("cache-control"));
+  if (
+    !CACHEABLE_STATUS.includes(response.status) ||
+    "no-store" in cacheControl ||
+    parseVary(response.headers.get("vary")).includes("*")
+  ) {
+    return false;
+  }
+
+  // only store responses that can either be served or revalidated later
+  return (
+    "max-age" in cacheControl ||
+    response.headers.has("expires") ||
+    response.headers.has("etag") ||
+    response.headers.has("last-modified")
+  );
+}
+
+type Freshness = "fresh" | "stale-while-revalidate" | "stale";
+
+/**
+ * Determines whether a stored response can be served without
+ * revalidation (RFC 9111 4.2)
+ */
+function freshness(
+  entry: CachedResponse,
+  reqCacheControl: Record<string, string | undefined>
+): Freshness {
+  const headers = new Map(entry.headers);
+  const cacheControl = parseCacheControl(headers.get("cache-control"));
+  if ("no-cache" in cacheControl || "no-cache" in reqCacheControl) {
+    return "stale";
+  }
+
+  const age = currentAge(entry, headers);
+  let lifetime = freshnessLifetime(entry, headers, cacheControl);
+  const reqMaxAge = parseSeconds(reqCacheControl["max-age"]);
+  if (typeof reqMaxAge !== "undefined") {
+    lifetime = Math.min(lifetime, reqMaxAge);
+  }
+
+  if (age < lifetime) {
+    return "fresh";
+  }
+
+  const staleWhileRevalidate = parseSeconds(
+    cacheControl["stale-while-revalidate"]
+  );
+  if (
+    typeof staleWhileRevalidate !== "undefined" &&
+    !("must-revalidate" in cacheControl) &&
+    age < lifetime + staleWhileRevalidate
+  ) {
+    return "stale-while-revalidate";
+  }
+
+  return "stale";
+}
+
+/**
+ * Freshness lifetime (seconds) of a stored response (RFC 9111 4.2.1)
+ */
+function freshnessLifetime(
+  entry: CachedResponse,
+  headers: Map<string, string>,
+  cacheControl: Record<string, string | undefined>
+): number {
+  const maxAge = parseSeconds(cacheControl["max-age"]);
+  if (typeof maxAge !== "undefined") {
+    return maxAge;
+  }
+
+  const date = parseDate(headers.get("date")) ?? entry.responseTime;
+  const expires = headers.get("expires");
+  if (typeof expires !== "undefined") {
+    // invalid dates (e.g. "0") represent a time in the past
+    const expiresAt = parseDate(expires) ?? 0;
+    return Math.max(0, (expiresAt - date) / 1000);
+  }
+
+  // heuristic freshness of 10% of the time since the last modification
+  // (RFC 9111 4.2.2)
+  const lastModified = parseDate(headers.get("last-modified"));
+  if (
+    typeof lastModified !== "undefined" &&
+    CACHEABLE_STATUS.includes(entry.status)
+  ) {
+    return Math.max(0, (date - lastModified) / 10000);
+  }
+
+  return 0;
+}
+
+/**
+ * Age (seconds) of a stored response (RFC 9111 4.2.3)
+ */
+function currentAge(entry: CachedResponse, headers: Map<string, string>) {
+  const ageValue = parseSeconds(headers.get("age")) ?? 0;
+  return ageValue + (Date.now() - entry.responseTime) / 1000;
+}
+
+function conditionalHeaders(entry: CachedResponse): Record<string, string> {
+  const headers = new Map(entry.headers);
+  const conditional: Record<string, string> = {};
+  const etag = headers.get("etag");
+  const lastModified = headers.get("last-modified");
+  if (etag) {
+    conditional["if-none-match"] = etag;
+  }
+  if (lastModified) {
+    conditional["if-modified-since"] = lastModified;
+  }
+  return conditional;
+}
+
+function varyMatches(entry: CachedResponse, reqInit: RequestInit): boolean {
+  return Object.entries(entry.vary).every(
+    ([name, value]) => requestHeader(reqInit, name) === value
+  );
+}
+
+function toResponse(entry: CachedResponse): ApiResponse {
+  return new Response(entry.body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+}
+
+function parseCacheControl(
+  header: string | null | undefined
+): Record<string, string | undefined> {
+  const directives: Record<string, string | undefined> = {};
+  for (const directive of (header ?? "").split(",")) {
+    const [name, value] = directive.split("=");
+    if (name && name.trim().length > 0) {
+      directives[name.trim().toLowerCase()] = value
+        ?.trim()
+        .replace(/^"|"$/g, "");
+    }
+  }
+  return directives;
+}
+
+function parseVary(header: string | null): string[] {
+  return (header ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+}
+
+function parseSeconds(value: string | null | undefined): number | undefined {
+  const seconds = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(seconds) ? undefined : seconds;
+}
+
+function parseDate(value: string | null | undefined): number | undefined {
+  const time = Date.parse(value ?? "");
+  return Number.isNaN(time) ? undefined : time;
+}
@@ -0,0 +1,214 @@
+import { classifyError } from "./retry";
+
+/**
+ * States of a circuit breaker
+ *  - closed: requests are sent and their outcomes recorded
+ *  - open: requests fail fast with a `CircuitOpenError`
+ *  - half-open: a limited number of trial requests are sent to determine
+ *    whether the service has recovered
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitStateChange {
+  serviceName: string;
+  from: CircuitState;
+  to: CircuitState;
+  // failure rate (0-1) of the requests in the window when the state changed
+  failureRate: number;
+}
+
+export type CircuitBreakerOptions = {
+  // failure rate (0-1) within the window at which the breaker opens
+  failureRateThreshold?: number;
+  // number of requests the window must contain before the breaker may open
+  minimumRequests?: number;
+  // number of most recent requests the failure rate is computed over
+  windowSize?: number;
+  // time (ms) the breaker stays open before allowing trial requests
+  resetTimeout?: number;
+  // number of trial requests sent while half-open, all of them must succeed
+  // for the breaker to close again
+  halfOpenRequests?: number;
+  // response status codes counted as failures, connection errors and header
+  // timeouts are always counted as failures
+  failureStatusCodes?: number[];
+  onStateChange?: (change: CircuitStateChange) => void;
+};
+
+/**
+ * Outcome of a request sent through the breaker, requests that were
+ * `ignored` (e.g. cancelled by the caller) do not count either way
+ */
+export type CircuitOutcome = "success" | "failure" | "ignored";
+
+export class CircuitOpenError extends Error {
+  serviceName: string;
+  // time (ms) until the breaker allows trial requests again
+  retryAfter: number;
+
+  constructor(serviceName: string, retryAfter: number) {
+    super(`circuit breaker for service '${serviceName}' is open`);
+    this.name = "CircuitOpenError";
+    this.serviceName = serviceName;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Stops sending requests to a service once the rate of failed requests
+ * within a sliding window exceeds the threshold.
+ *
+ * Details:
+ *    https://martinfowler.com/bliki/CircuitBreaker.html
+ */
+export class CircuitBreaker {
+  readonly serviceName: string;
+  private failureRateThreshold: number;
+  private minimumRequests: number;
+  private windowSize: number;
+  private resetTimeout: number;
+  private halfOpenRequests: number;
+  private failureStatusCodes: number[];
+  private onStateChange: ((change: CircuitStateChange) => void) | undefined;
+
+  private currentState: CircuitState = "closed";
+  // outcomes of the most recent requests, `true` marking a failure
+  private window: boolean[] = [];
+  private openedAt: number = 0;
+  private pendingTrials: number = 0;
+  private successfulTrials: number = 0;
+  // incremented on every state change so outcomes of requests acquired
+  // in a previous state are discarded
+  private generation: number = 0;
+
+  constructor(serviceName: string, options: CircuitBreakerOptions = {}) {
+    this.serviceName = serviceName;
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.windowSize = options.windowSize ?? 20;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    this.halfOpenRequests = options.halfOpenRequests ?? 1;
+    this.failureStatusCodes = options.failureStatusCodes ?? [
+      500, 502, 503, 504,
+    ];
+    this.onStateChange = options.onStateChange;
+  }
+
+  get state(): CircuitState {
+    if (
+      this.currentState === "open" &&
+      Date.now() - this.openedAt >= this.resetTimeout
+    ) {
+      this.transition("half-open");
+    }
+
+    return this.currentState;
+  }
+
+  get failureRate(): number {
+    if (this.window.length === 0) {
+      return 0;
+    }
+
+    return this.window.filter((failed) => failed).length / this.window.length;
+  }
+
+  /**
+   * Reserves a request, throwing a `CircuitOpenError` if the breaker does
+   * not allow it. The returned function must be called with the outcome
+   * of the request once it has completed.
+   */
+  acquire(): (outcome: CircuitOutcome) => void {
+    const state = this.state;
+    if (
+      state === "open" ||
+      (state === "half-open" && this.pendingTrials >= this.halfOpenRequests)
+    ) {
+      const retryAfter = Math.max(
+        0,
+        this.openedAt + this.resetTimeout - Date.now()
+      );
+      throw new CircuitOpenError(this.serviceName, retryAfter);
+    }
+
+    if (state === "half-open") {
+      this.pendingTrials++;
+    }
+
+    const generation = this.generation;
+    let released = false;
+    return (outcome) => {
+      if (released || generation !== this.generation) {
+        return;
+      }
+      released = true;
+      this.record(state, outcome);
+    };
+  }
+
+  /**
+   * Whether the response status or error of a request counts as a failure
+   */
+  isFailure({
+    statusCode,
+    error,
+  }: {
+    statusCode?: number | undefined;
+    error?: unknown;
+  }): boolean {
+    if (typeof statusCode !== "undefined") {
+      return this.failureStatusCodes.includes(statusCode);
+    }
+
+    return typeof classifyError(error) !== "undefined";
+  }
+
+  private record(state: CircuitState, outcome: CircuitOutcome) {
+    if (state === "half-open") {
+      this.pendingTrials--;
+      if (outcome === "failure") {
+        this.open();
+      } else if (
+        outcome === "success" &&
+        ++this.successfulTrials >= this.halfOpenRequests
+      ) {
+        this.window = [];
+        this.transition("closed");
+      }
+      return;
+    } else if (outcome === "ignored") {
+      return;
+    }
+
+    this.window.push(outcome === "failure");
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+
+    if (
+      this.window.length >= this.minimumRequests &&
+      this.failureRate >= this.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open() {
+    this.openedAt = Date.now();
+    this.transition("open");
+  }
+
+  private transition(to: CircuitState) {
+    const from = this.currentState;
+    this.currentState = to;
+    this.pendingTrials = 0;
+    this.successfulTrials = 0;
+    this.generation++;
+    this.onStateChange?.({
+      serviceName: this.serviceName,
+      from,
+      to,
+      failureRate: this.failureRate,
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import type { ApiResponse } from "./core-client";
+import { copyResponse } from "./fetch";
+
+interface Participant {
+  resolve: (response: ApiResponse) => void;
+  reject: (err: unknown) => void;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+}
+
+interface SharedRequest {
+  controller: AbortController;
+  participants: Set<Participant>;
+}
+
+/**
+ * Shares a single in-flight request between concurrent callers making
+ * an identical request.
+ *
+ * The request is sent on an internal signal which is only aborted once
+ * every caller has cancelled, a caller cancelling on its own is rejected
+ * without affecting the others. The body of the response is read once and
+ * every caller receives a response of its own so each caller can read the
+ * body independently (or not at all).
+ */
+export class RequestCoalescer {
+  private inflight: Map<string, SharedRequest> = new Map();
+
+  run(
+    key: string,
+    send: (signal: AbortSignal) => Promise<ApiResponse>,
+    signal?: AbortSignal | undefined
+  ): Promise<ApiResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason as Error);
+    }
+
+    let shared = this.inflight.get(key);
+    if (!shared) {
+      shared = { controller: new AbortController(), participants: new Set() };
+      this.inflight.set(key, shared);
+      this.send(key, shared, send);
+    }
+
+    return this.join(key, shared, signal);
+  }
+
+  private join(
+    key: string,
+    shared: SharedRequest,
+    signal: AbortSignal | undefined
+  ): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+      const participant: Participant = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          shared.participants.delete(participant);
+          reject(signal?.reason as Error);
+          if (shared.participants.size === 0) {
+            // nobody is left waiting for the response
+            if (this.inflight.get(key) === shared) {
+              this.inflight.delete(key);
+            }
+            shared.controller.abort(signal?.reason);
+          }
+        },
+      };
+      signal?.addEventListener("abort", participant.onAbort, { once: true });
+      shared.participants.add(participant);
+    });
+  }
+
+  private send(
+    key: string,
+    shared: SharedRequest,
+    send: (signal: AbortSignal) => Promise<ApiResponse>
+  ) {
+    const settle = (outcome: (participant: Participant) => void) => {
+      if (this.inflight.get(key) === shared) {
+        this.inflight.delete(key);
+      }
+      for (const participant of shared.participants) {
+        participant.signal?.removeEventListener("abort", participant.onAbort);
+        outcome(participant);
+      }
+      shared.participants.clear();
+    };
+
+    send(shared.controller.signal)
+      .then(async (response) => {
+        const body = await response.arrayBuffer();
+        settle((participant) =>
+          participant.resolve(copyResponse(response, body))
+        );
+      })
+      .catch((err: unknown) =>
+        settle((participant) => participant.reject(err))
+      );
+  }
+}
+
+/**
+ * Builds the key identifying identical requests, all headers (including
+ * auth) take part in the key so requests are only shared between callers
+ * with the same credentials
+ */
+export function coalesceKey(url: string, reqInit: RequestInit): string {
+  const headers = Object.entries(
+    (reqInit.headers as Record<string, string> | undefined) ?? {}
+  )
+    .map(([k, v]) => [k.toLowerCase(), v])
+    .sort(([a], [b]) => ((a ?? "") < (b ?? "") ? -1 : 1));
+
+  return JSON.stringify([reqInit.method, url, headers, reqInit.credentials]);
+}
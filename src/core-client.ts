@@ -1,40 +1,127 @@
 import type * as z from "zod";
 import type { Response as NodeResponse } from "node-fetch";
-import nodeFetch from "node-fetch";
 
 import type { AuthProvider } from "./auth";
 import { RUNTIME } from "./runtime";
-import { ApiPromise } from "./api-promise";
+import {
+  ApiPromise,
+  type ApiPromiseProps,
+  type RequestStats,
+} from "./api-promise";
 import { ApiError } from "./api-error";
 import { createForm } from "./form-data";
 import { encodeQueryParam, type QueryStyle } from "./query";
+import { formatPath, type PathStyle } from "./path";
+import { encodeCookieParam, encodeHeaderParam, requestHeader } from "./header";
 import {
   JSON_PATTERN,
   TEXT_PATTERN,
   MULTIPART_FORM,
   URL_FORM,
 } from "./content-type";
-import { RetryStrategy, RetryConfig, sleep } from "./retry";
+import {
+  RetryStrategy,
+  RetryConfig,
+  sleep,
+  isSafeMethod,
+  isIdempotentMethod,
+  generateIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+} from "./retry";
+import { composeMiddleware, type Middleware } from "./middleware";
+import {
+  copyResponse,
+  defaultFetcher,
+  SharedBody,
+  type Fetcher,
+} from "./fetch";
+import { forwardAbort } from "./abort";
+import { TimeoutError } from "./timeout";
+import { RequestCoalescer, coalesceKey } from "./coalesce";
+import { HttpCache, type CacheStore } from "./cache";
+import { CircuitBreaker, type CircuitBreakerOptions } from "./circuit-breaker";
+import { RateLimiter, type RateLimitOptions } from "./rate-limit";
+import { RetryBudget, type RetryBudgetOptions } from "./retry-budget";
+import { hedge, type HedgingStrategy } from "./hedging";
+import { ReplayableBody, type BodyFactory } from "./body";
+import {
+  validateResponse,
+  type ValidationErrorHandler,
+  type ValidationMode,
+} from "./validation";
+import { DecoderRegistry, type ResponseDecoder } from "./decoders";
+import { selectResponseSchema, type ResponseSchemas } from "./response-schemas";
 
 export interface CoreClientProps {
   baseUrl: string | Record<string, string | undefined>;
   timeout?: number | undefined;
+  totalTimeout?: number | undefined;
+  idleTimeout?: number | undefined;
   auths?: Record<string, AuthProvider>;
   retries?: RetryStrategy;
+  // limits the retries of all requests to a fraction of the recent requests
+  retryBudget?: RetryBudgetOptions | undefined;
+  // send additional attempts of slow requests using safe methods
+  hedging?: HedgingStrategy | undefined;
+  // maximum size (bytes) of stream bodies buffered so they can be resent
+  // by retries and hedges, 0 disables buffering
+  replayBufferSize?: number | undefined;
+  middleware?: Middleware[];
+  fetch?: Fetcher;
+  coalesce?: boolean | undefined;
+  // only send requests once their `ApiPromise` is consumed
+  lazy?: boolean | undefined;
+  // enables the HTTP cache using the given store, or an in-memory store if `true`
+  cache?: boolean | CacheStore | undefined;
+  // enables a circuit breaker for each service using the given options
+  circuitBreaker?: CircuitBreakerOptions | undefined;
+  // limits shared by all requests of the client
+  rateLimit?: RateLimitOptions | undefined;
+  // limits applied to the requests of a service in addition to `rateLimit`
+  serviceRateLimits?: Record<string, RateLimitOptions> | undefined;
+  // how responses are validated against their schema, defaults to "strict"
+  validation?: ValidationMode | undefined;
+  // receives the validation errors of responses validated in "warn" mode
+  onValidationError?: ValidationErrorHandler | undefined;
+  // decoders of response bodies keyed by media type pattern (e.g.
+  // `application/xml` or `text/*`), taking precedence over the built-in
+  // JSON, text and binary handling
+  decoders?: Record<string, ResponseDecoder> | undefined;
 }
 
 export type ApiResponse = Response | NodeResponse;
-export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+export type HttpMethod =
+  | "get"
+  | "post"
+  | "put"
+  | "patch"
+  | "delete"
+  | "head"
+  | "options"
+  | "trace"
+  | "query";
 
 export type RequestConfig = {
   method: HttpMethod;
   path: string;
+  pathParams?: Record<string, any>;
+  pathEncoding?: {
+    style?: Record<string, PathStyle>;
+    explode?: Record<string, boolean>;
+  };
   serviceName?: string | undefined;
   responseSchema?: z.Schema;
+  // schemas by status code, status range (e.g. `2XX`) or `default`, the
+  // request resolves to the status and data of successful responses and
+  // error bodies are parsed into `ApiError.body`
+  responseSchemas?: ResponseSchemas | undefined;
+  // overrides the validation mode of the client
+  validation?: ValidationMode | undefined;
   responseStream?: boolean;
   responseRaw?: boolean;
   auth?: string[];
   query?: string[];
+  // may be a `BodyFactory` creating the body for every attempt
   body?: any;
   bodyEncoding?: {
     style?: Record<string, QueryStyle>;
@@ -42,15 +129,39 @@ export type RequestConfig = {
   };
   contentType?: string;
   headers?: Record<string, string>;
+  headerParams?: Record<string, any>;
+  headerEncoding?: {
+    explode?: Record<string, boolean>;
+  };
+  cookieParams?: Record<string, any>;
+  cookieEncoding?: {
+    explode?: Record<string, boolean>;
+  };
   opts?: RequestOptions | undefined;
   withCredentials?: boolean;
 };
 
 export interface RequestOptions {
+  // time (ms) to wait for response headers on each attempt
   timeout?: number;
+  // time (ms) until the response has been fully read, including retries
+  totalTimeout?: number;
+  // time (ms) to wait between chunks of an event stream
+  idleTimeout?: number;
   additionalHeaders?: Record<string, string>;
   additionalQuery?: Record<string, string>;
   retries?: RetryStrategy;
+  // set to `false` to disable hedging configured on the client
+  hedging?: HedgingStrategy | false;
+  replayBufferSize?: number;
+  signal?: AbortSignal;
+  // share the response of concurrent identical requests (safe methods only)
+  coalesce?: boolean;
+  // set to `false` to bypass the HTTP cache
+  cache?: boolean;
+  // only send the request once its `ApiPromise` is consumed (e.g. awaited),
+  // allowing its options to be changed using `ApiPromise.withOptions()`
+  lazy?: boolean;
 }
 
 const _DEFAULT_SERVICE_NAME = "__default_service__";
@@ -59,7 +170,25 @@ export class CoreClient {
   private baseUrl: Record<string, string | undefined>;
   private auths: Record<string, AuthProvider>;
   private timeout: number | undefined;
+  private totalTimeout: number | undefined;
+  private idleTimeout: number | undefined;
   private retries?: RetryStrategy | undefined;
+  private retryBudget: RetryBudget | undefined;
+  private hedging: HedgingStrategy | undefined;
+  private replayBufferSize: number | undefined;
+  private middleware: Middleware[];
+  private fetch: Fetcher;
+  private coalesce: boolean;
+  private lazy: boolean;
+  private coalescer: RequestCoalescer = new RequestCoalescer();
+  private cache: HttpCache | undefined;
+  private circuitBreakerOptions: CircuitBreakerOptions | undefined;
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private rateLimiter: RateLimiter | undefined;
+  private serviceRateLimiters: Record<string, RateLimiter> = {};
+  private validation: ValidationMode | undefined;
+  private onValidationError: ValidationErrorHandler | undefined;
+  private decoders: DecoderRegistry;
 
   constructor(props: CoreClientProps) {
     this.baseUrl =
@@ -68,14 +197,93 @@ export class CoreClient {
         : props.baseUrl;
     this.auths = props.auths ?? {};
     this.timeout = props.timeout;
+    this.totalTimeout = props.totalTimeout;
+    this.idleTimeout = props.idleTimeout;
     this.retries = props.retries;
+    if (props.retryBudget) {
+      this.retryBudget = new RetryBudget(props.retryBudget);
+    }
+    this.hedging = props.hedging;
+    this.replayBufferSize = props.replayBufferSize;
+    this.middleware = [...(props.middleware ?? [])];
+    this.fetch = props.fetch ?? defaultFetcher;
+    this.coalesce = props.coalesce ?? false;
+    this.lazy = props.lazy ?? false;
+    if (props.cache) {
+      this.cache = new HttpCache(
+        props.cache === true ? undefined : props.cache
+      );
+    }
+    this.circuitBreakerOptions = props.circuitBreaker;
+    if (props.rateLimit) {
+      this.rateLimiter = new RateLimiter(props.rateLimit);
+    }
+    for (const [serviceName, options] of Object.entries(
+      props.serviceRateLimits ?? {}
+    )) {
+      this.serviceRateLimiters[serviceName] = new RateLimiter(options);
+    }
+    this.validation = props.validation;
+    this.onValidationError = props.onValidationError;
+    this.decoders = new DecoderRegistry(props.decoders);
+  }
+
+  /**
+   * Appends a middleware to the end of the chain, it will run after
+   * (i.e. inside of) all previously registered middleware
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Registers a decoder for response bodies whose media type matches the
+   * pattern, taking precedence over previously registered decoders
+   */
+  registerDecoder(pattern: string | RegExp, decoder: ResponseDecoder): this {
+    this.decoders.register(pattern, decoder);
+    return this;
+  }
+
+  /**
+   * Circuit breaker of the service, `undefined` if circuit breaking
+   * has not been enabled
+   */
+  circuitBreaker(
+    serviceName: string = _DEFAULT_SERVICE_NAME
+  ): CircuitBreaker | undefined {
+    if (!this.circuitBreakerOptions) {
+      return undefined;
+    }
+
+    let breaker = this.circuitBreakers.get(serviceName);
+    if (!breaker) {
+      breaker = new CircuitBreaker(serviceName, this.circuitBreakerOptions);
+      this.circuitBreakers.set(serviceName, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * Rate limiters a request to the service has to pass, the service
+   * limiter comes first so requests waiting on it do not hold up
+   * requests to other services
+   */
+  private rateLimiters(
+    serviceName: string = _DEFAULT_SERVICE_NAME
+  ): RateLimiter[] {
+    return [this.serviceRateLimiters[serviceName], this.rateLimiter].filter(
+      (limiter): limiter is RateLimiter => typeof limiter !== "undefined"
+    );
   }
 
   private async applyAuths(cfg: RequestConfig): Promise<RequestConfig> {
     for (const name of cfg.auth ?? []) {
       const provider = this.auths[name];
       if (provider) {
-        cfg = await provider.applyAuth(cfg);
+        cfg = await provider.applyAuth(cfg, { fetch: this.fetch });
       }
     }
 
@@ -90,7 +298,15 @@ export class CoreClient {
   }
 
   private buildUrlFromCfg(cfg: RequestConfig): string {
-    let url = this.buildUrl(cfg.path, cfg.serviceName);
+    const path = cfg.pathParams
+      ? formatPath({
+          path: cfg.path,
+          params: cfg.pathParams,
+          style: cfg.pathEncoding?.style,
+          explode: cfg.pathEncoding?.explode,
+        })
+      : cfg.path;
+    let url = this.buildUrl(path, cfg.serviceName);
 
     const searchParams = new URLSearchParams((cfg.query ?? []).join("&"));
     for (const [key, val] of Object.entries(cfg.opts?.additionalQuery ?? {})) {
@@ -104,12 +320,41 @@ export class CoreClient {
     return url;
   }
 
+  private encodeHeaderParams(cfg: RequestConfig): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const explodeMap = cfg.headerEncoding?.explode ?? {};
+    for (const [name, value] of Object.entries(cfg.headerParams ?? {})) {
+      if (value !== null && typeof value !== "undefined") {
+        const explode = explodeMap[name] ?? false;
+        headers[name] = encodeHeaderParam({ value, explode });
+      }
+    }
+
+    const explodeCookieMap = cfg.cookieEncoding?.explode ?? {};
+    const cookies = Object.entries(cfg.cookieParams ?? {})
+      .filter(([, value]) => value !== null && typeof value !== "undefined")
+      .map(([name, value]) => {
+        const explode = explodeCookieMap[name] ?? true;
+        return encodeCookieParam({ name, value, explode });
+      });
+    if (cookies.length > 0) {
+      // append to cookies that may have already been set (e.g. by auth)
+      const existing = cfg.headers?.["Cookie"];
+      headers["Cookie"] = [...(existing ? [existing] : []), ...cookies].join(
+        "; "
+      );
+    }
+
+    return headers;
+  }
+
   private applyHeaders(cfg: RequestConfig, reqInit: RequestInit): RequestInit {
     const finalHeaders = {
       "x-sideko-sdk-language": "Javascript",
       "x-sideko-runtime": RUNTIME.type,
       ...(reqInit.headers ?? {}),
       ...(cfg.headers ?? {}),
+      ...this.encodeHeaderParams(cfg),
       ...(cfg.contentType ? { "content-type": cfg.contentType } : {}),
       ...cfg.opts?.additionalHeaders,
     };
@@ -127,16 +372,18 @@ export class CoreClient {
       cfg.opts?.additionalHeaders?.["content-type"] ??
       cfg.opts?.additionalHeaders?.["Content-Type"];
     const contentType = contentTypeOverride ?? cfg.contentType ?? "";
+    const body =
+      typeof cfg.body === "function" ? (cfg.body as BodyFactory)() : cfg.body;
 
-    if (typeof cfg.body === "undefined") {
+    if (typeof body === "undefined") {
       return reqInit;
     } else if (contentType.match(JSON_PATTERN)) {
-      reqInit.body = JSON.stringify(cfg.body);
+      reqInit.body = JSON.stringify(body);
     } else if (contentType.match(TEXT_PATTERN)) {
-      reqInit.body = String(cfg.body);
+      reqInit.body = String(body);
     } else if (contentType === MULTIPART_FORM) {
       // encode form
-      const form = createForm(cfg.body);
+      const form = createForm(body);
       const headers = (reqInit.headers as Record<string, string>) ?? {};
 
       if (RUNTIME.type === "node") {
@@ -151,7 +398,7 @@ export class CoreClient {
       reqInit.headers = headers;
       reqInit.body = form as unknown as FormData;
     } else if (contentType === URL_FORM) {
-      if (typeof cfg.body !== "object") {
+      if (typeof body !== "object") {
         throw new TypeError(
           "x-www-form-urlencoded data must be an object at the top level"
         );
@@ -160,7 +407,7 @@ export class CoreClient {
       // encode form data
       const styleMap = cfg.bodyEncoding?.style ?? {};
       const explodeMap = cfg.bodyEncoding?.explode ?? {};
-      const formData = Object.entries(cfg.body).map(([name, value]) => {
+      const formData = Object.entries(body).map(([name, value]) => {
         const style = styleMap[name] ?? "form";
         const explode = explodeMap[name] ?? style === "form";
         return encodeQueryParam({ name, value, style, explode });
@@ -169,7 +416,7 @@ export class CoreClient {
       reqInit.body = formData.join("&");
     } else {
       // we expect body to already be encoded in the correct fashion
-      reqInit.body = cfg.body;
+      reqInit.body = body;
     }
     return reqInit;
   }
@@ -190,70 +437,476 @@ export class CoreClient {
     url,
     reqInit,
     timeout,
+    signal,
   }: {
     url: string;
     reqInit: RequestInit;
     timeout?: number | undefined;
+    signal?: AbortSignal | undefined;
   }): Promise<ApiResponse> {
     const controller = new AbortController();
+    // the request's signal stays linked once a response is received so
+    // aborting it also cancels reading the response body, the request's
+    // signal is unlinked from the caller's once the request is complete
+    const unlink = forwardAbort(signal, controller);
     let timeoutId;
     if (typeof timeout !== "undefined") {
-      timeoutId = setTimeout(() => controller.abort(), timeout);
+      timeoutId = setTimeout(
+        () => controller.abort(new TimeoutError("headers", timeout)),
+        timeout
+      );
     }
-    reqInit.signal = controller.signal;
 
-    const fetcherFn =
-      RUNTIME.type === "node" || typeof fetch !== "function"
-        ? nodeFetch
-        : fetch;
-    const response = await fetcherFn(url, reqInit as any);
+    try {
+      return await this.fetch(url, {
+        ...reqInit,
+        signal: controller.signal,
+      });
+    } catch (err) {
+      unlink();
+      // not all fetch implementations reject with the abort reason,
+      // surface timeouts consistently
+      const reason: unknown = controller.signal.reason;
+      throw reason instanceof TimeoutError ? reason : err;
+    } finally {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    }
+  }
 
-    if (timeoutId) {
+  /**
+   * Waits until every rate limiter allows the request to be sent, raising
+   * a `queue` timeout error if the wait exceeds the timeout. Returns a
+   * function releasing the acquired slots.
+   */
+  private async acquireRateLimits(
+    rateLimiters: RateLimiter[],
+    timeout: number | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<() => void> {
+    const releases: (() => void)[] = [];
+    const releaseAll = () => releases.forEach((release) => release());
+    if (rateLimiters.length === 0) {
+      return releaseAll;
+    }
+
+    const controller = new AbortController();
+    const unlink = forwardAbort(signal, controller);
+    let timeoutId;
+    if (typeof timeout !== "undefined") {
+      timeoutId = setTimeout(
+        () => controller.abort(new TimeoutError("queue", timeout)),
+        timeout
+      );
+    }
+
+    try {
+      for (const limiter of rateLimiters) {
+        releases.push(await limiter.acquire(controller.signal));
+      }
+      return releaseAll;
+    } catch (err) {
+      releaseAll();
+      throw err;
+    } finally {
+      unlink();
       clearTimeout(timeoutId);
     }
-    return response;
   }
 
-  private async request(cfg: RequestConfig): Promise<ApiResponse> {
-    cfg = await this.applyAuths(cfg);
+  /**
+   * Sends the request unless the circuit breaker of the service is open,
+   * recording the outcome of the request with the breaker
+   */
+  private async sendGuarded(
+    breaker: CircuitBreaker | undefined,
+    sendRequestData: Parameters<CoreClient["sendRequest"]>[0]
+  ): Promise<ApiResponse> {
+    if (!breaker) {
+      return this.sendRequest(sendRequestData);
+    }
+
+    const release = breaker.acquire();
+    try {
+      const response = await this.sendRequest(sendRequestData);
+      release(
+        breaker.isFailure({ statusCode: response.status })
+          ? "failure"
+          : "success"
+      );
+      return response;
+    } catch (err) {
+      release(breaker.isFailure({ error: err }) ? "failure" : "ignored");
+      throw err;
+    }
+  }
+
+  private async dispatch(
+    cfg: RequestConfig,
+    stats: RequestStats
+  ): Promise<ApiResponse> {
+    // auth providers add to the query and headers in place, copy them so
+    // middleware calling `next` more than once sends the credentials once
+    cfg = await this.applyAuths({
+      ...cfg,
+      ...(cfg.query && { query: [...cfg.query] }),
+      ...(cfg.headers && { headers: { ...cfg.headers } }),
+    });
     const reqInit = this.buildRequestInit(cfg);
     const url = this.buildUrlFromCfg(cfg);
+    stats.url = url;
+
+    if (this.cache && cfg.opts?.cache !== false && !cfg.responseStream) {
+      return this.cache.handle(url, reqInit, (headers, background) => {
+        const init = {
+          ...reqInit,
+          headers: {
+            ...(reqInit.headers as Record<string, string>),
+            ...headers,
+          },
+        };
+        // background revalidation outlives the request that triggered it
+        return background
+          ? this.sendCoalesced(withoutSignal(cfg), url, init)
+          : this.sendCoalesced(cfg, url, init, stats);
+      });
+    }
+
+    return this.sendCoalesced(cfg, url, reqInit, stats);
+  }
+
+  private async sendCoalesced(
+    cfg: RequestConfig,
+    url: string,
+    reqInit: RequestInit,
+    stats?: RequestStats
+  ): Promise<ApiResponse> {
+    const coalesce =
+      (cfg.opts?.coalesce ?? this.coalesce) &&
+      isSafeMethod(cfg.method) &&
+      typeof reqInit.body === "undefined" &&
+      !cfg.responseStream;
+    if (coalesce) {
+      // the shared request runs on its own signal, which is only aborted
+      // once every caller has cancelled
+      return this.coalescer.run(
+        coalesceKey(url, reqInit),
+        (signal) =>
+          this.sendWithRetries(
+            { ...cfg, opts: { ...cfg.opts, signal } },
+            url,
+            reqInit,
+            stats
+          ),
+        cfg.opts?.signal
+      );
+    }
+
+    return this.sendWithRetries(cfg, url, reqInit, stats);
+  }
+
+  private async sendWithRetries(
+    cfg: RequestConfig,
+    url: string,
+    reqInit: RequestInit,
+    stats?: RequestStats
+  ): Promise<ApiResponse> {
     const timeout = cfg.opts?.timeout ?? this.timeout;
-    const sendRequestData = { url, reqInit, timeout };
+    const signal = cfg.opts?.signal;
+    const rateLimiters = this.rateLimiters(cfg.serviceName);
+    const sendRequestData = { url, reqInit, timeout, signal };
+    const breaker = this.circuitBreaker(cfg.serviceName);
+    const hedging = isSafeMethod(cfg.method)
+      ? (cfg.opts?.hedging ?? this.hedging)
+      : undefined;
+
+    const retry =
+      cfg.opts?.retries || this.retries
+        ? new RetryConfig({
+            override: cfg.opts?.retries,
+            base: this.retries,
+            budget: this.retryBudget,
+          })
+        : undefined;
+    this.retryBudget?.deposit();
+    const hasIdempotencyKey =
+      requestHeader(reqInit, IDEMPOTENCY_KEY_HEADER) !== null;
+
+    // the body has to be replayed if the request may be sent more than once
+    const body =
+      retry || hedging
+        ? new ReplayableBody({
+            init: reqInit,
+            rebuild:
+              typeof cfg.body === "function"
+                ? () => this.buildRequestInit(cfg)
+                : undefined,
+            maxBufferSize: cfg.opts?.replayBufferSize ?? this.replayBufferSize,
+          })
+        : undefined;
+    const send = async (signal: AbortSignal | undefined) => {
+      const init = body ? await body.nextInit() : reqInit;
+      // requests wait for rate limits before passing the circuit breaker,
+      // waiting locally is neither a failure of the service nor retried
+      const release = await this.acquireRateLimits(
+        rateLimiters,
+        timeout,
+        signal
+      );
+      try {
+        const response = await this.sendGuarded(breaker, {
+          ...sendRequestData,
+          reqInit: init,
+          signal,
+        });
+        for (const limiter of rateLimiters) {
+          limiter.update({
+            statusCode: response.status,
+            headers: response.headers,
+          });
+        }
+        return response;
+      } finally {
+        release();
+      }
+    };
+    let attempt = 1;
+    let delay = retry?.initialDelay ?? 0;
+    let prevDelay = delay;
+
+    while (true) {
+      let response: ApiResponse | undefined;
+      let error: unknown;
+      if (stats) {
+        stats.attempts++;
+      }
+      try {
+        response = hedging
+          ? await hedge({
+              send,
+              strategy: {
+                ...hedging,
+                onHedge: (context) => {
+                  if (stats) {
+                    stats.hedges++;
+                  }
+                  hedging.onHedge?.(context);
+                },
+              },
+              cfg,
+              signal,
+            })
+          : await send(signal);
+      } catch (err) {
+        error = err;
+      }
 
-    let response = await this.sendRequest(sendRequestData);
-    if (cfg.opts?.retries || this.retries) {
-      const retry = new RetryConfig({
-        override: cfg.opts?.retries,
-        base: this.retries,
-      });
-      let attempt = 1;
-      let delay = retry.initialDelay;
-      while (retry.shouldRetry({ attempt, statusCode: response.status })) {
-        await sleep(delay);
-        response = await this.sendRequest(sendRequestData);
-        delay = retry.calcNextDelay({ currDelay: delay });
-        attempt++;
+      let nextDelay: number | undefined;
+      // hooks reading the body of the response read it once for all hooks
+      // and the caller
+      const shared = response && new SharedBody(response);
+      if (
+        typeof retry !== "undefined" &&
+        !signal?.aborted &&
+        attempt <= retry.maxRetries
+      ) {
+        prevDelay = retry.calcJitteredDelay({ delay, prevDelay });
+        const serverDelay = response
+          ? retry.calcServerDelay({
+              statusCode: response.status,
+              headers: response.headers,
+            })
+          : undefined;
+        nextDelay = await retry.decideRetry({
+          retryable: retry.shouldRetry({
+            attempt,
+            statusCode: response?.status,
+            error,
+            method: cfg.method,
+            hasIdempotencyKey,
+          }),
+          context: {
+            attempt,
+            response,
+            error,
+            cfg,
+            delay: serverDelay ?? prevDelay,
+          },
+          body: shared,
+        });
+      }
+
+      if (typeof retry === "undefined" || typeof nextDelay === "undefined") {
+        if (shared) {
+          return shared.settle();
+        }
+        throw error;
       }
+
+      await sleep(nextDelay, signal);
+      delay = retry.calcNextDelay({ currDelay: delay });
+      attempt++;
     }
+  }
+
+  private async request(
+    cfg: RequestConfig,
+    stats: RequestStats
+  ): Promise<ApiResponse> {
+    const handler = composeMiddleware(this.middleware, (cfg) =>
+      this.dispatch(cfg, stats)
+    );
+    const response = await handler(cfg);
+    stats.headersAt = Date.now();
 
     if (!response.ok) {
-      throw new ApiError(cfg, response as any);
+      throw await this.apiError(cfg, response);
     }
 
     return response;
   }
 
+  /**
+   * Creates the error of an unsuccessful response, parsing its body using
+   * the schema of its status. The body is read once, the error carries a
+   * copy of the response whose body can still be read.
+   */
+  private async apiError(
+    cfg: RequestConfig,
+    response: ApiResponse
+  ): Promise<ApiError> {
+    const schema = selectResponseSchema(cfg.responseSchemas, response.status);
+    if (!schema || cfg.method === "head") {
+      return new ApiError(cfg, response as any);
+    }
+
+    let buffered: ArrayBuffer;
+    try {
+      buffered = await response.arrayBuffer();
+    } catch (err) {
+      return new ApiError(cfg, response as any, undefined, err);
+    }
+    const errorResponse = copyResponse(response, buffered) as any;
+    if (buffered.byteLength === 0) {
+      return new ApiError(cfg, errorResponse);
+    }
+
+    let rawBody: unknown = new TextDecoder().decode(buffered);
+    try {
+      const contentType = response.headers.get("content-type") ?? "";
+      const decode = this.decoders.find(contentType);
+      if (decode) {
+        rawBody = await decode(copyResponse(response, buffered));
+      } else if (JSON_PATTERN.test(contentType)) {
+        rawBody = JSON.parse(rawBody as string);
+      }
+
+      const body = validateResponse({
+        schema,
+        rawJson: rawBody,
+        status: response.status,
+        request: cfg,
+        mode: cfg.validation ?? this.validation,
+        onError: this.onValidationError,
+      });
+      return new ApiError(cfg, errorResponse, body);
+    } catch (err) {
+      // the status of the response is more relevant than its body
+      return new ApiError(cfg, errorResponse, rawBody, err);
+    }
+  }
+
+  /**
+   * Adds a generated `Idempotency-Key` header to requests that are not
+   * idempotent if configured, the key is generated once per call to
+   * `makeRequest` so it is shared by every attempt
+   */
+  private applyIdempotencyKey(cfg: RequestConfig): RequestConfig {
+    if (
+      !(cfg.opts?.retries || this.retries) ||
+      isIdempotentMethod(cfg.method)
+    ) {
+      return cfg;
+    }
+
+    const retry = new RetryConfig({
+      override: cfg.opts?.retries,
+      base: this.retries,
+    });
+    const headers = { ...cfg.headers, ...cfg.opts?.additionalHeaders };
+    if (
+      !retry.idempotencyKey ||
+      requestHeader({ headers }, IDEMPOTENCY_KEY_HEADER) !== null
+    ) {
+      return cfg;
+    }
+
+    return {
+      ...cfg,
+      headers: {
+        ...cfg.headers,
+        [IDEMPOTENCY_KEY_HEADER]: generateIdempotencyKey(),
+      },
+    };
+  }
+
   makeRequest<R>(cfg: RequestConfig): ApiPromise<R> {
-    return new ApiPromise({
-      responsePromise: this.request(cfg),
+    if (cfg.opts?.lazy ?? this.lazy) {
+      return new ApiPromise({
+        cfg,
+        start: (cfg, abortController) =>
+          this.startRequest(cfg, abortController),
+      });
+    }
+
+    return new ApiPromise(this.startRequest(cfg, new AbortController()));
+  }
+
+  private startRequest(
+    cfg: RequestConfig,
+    abortController: AbortController
+  ): ApiPromiseProps {
+    // each request gets its own controller so it can be cancelled through
+    // the `ApiPromise` in addition to the caller supplied signal
+    // the caller's signal may outlive many requests, it is unlinked once
+    // the request is complete
+    const unlink = forwardAbort(cfg.opts?.signal, abortController);
+    cfg = { ...cfg, opts: { ...cfg.opts, signal: abortController.signal } };
+    cfg = this.applyIdempotencyKey(cfg);
+    const stats: RequestStats = {
+      url: this.buildUrl(cfg.path, cfg.serviceName),
+      attempts: 0,
+      hedges: 0,
+      startedAt: Date.now(),
+    };
+
+    return {
+      responsePromise: this.request(cfg, stats),
+      stats,
+      abortController,
       responseRaw: cfg.responseRaw ?? false,
       responseStream: cfg.responseStream ?? false,
       responseSchema: cfg.responseSchema,
-    });
+      responseSchemas: cfg.responseSchemas,
+      validation: cfg.validation ?? this.validation,
+      onValidationError: this.onValidationError,
+      decoders: this.decoders,
+      request: cfg,
+      method: cfg.method,
+      totalTimeout: cfg.opts?.totalTimeout ?? this.totalTimeout,
+      idleTimeout: cfg.opts?.idleTimeout ?? this.idleTimeout,
+      onComplete: unlink,
+    };
   }
 }
 
+function withoutSignal(cfg: RequestConfig): RequestConfig {
+  const opts = { ...cfg.opts };
+  delete opts.signal;
+  return { ...cfg, opts };
+}
+
 export interface ResourceClientOptions {
   lazyLoad?: boolean | undefined;
 }
@@ -0,0 +1,155 @@
+import type { ApiResponse } from "./core-client";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Decodes the body of a response, the decoded value is validated using the
+ * response schema just like JSON bodies
+ */
+export type ResponseDecoder = (response: ApiResponse) => MaybePromise<unknown>;
+
+interface Registration {
+  pattern: RegExp;
+  decode: ResponseDecoder;
+}
+
+/**
+ * Converts a media type pattern, where `*` matches any part of the type or
+ * subtype (e.g. `text/*` or `application/*+xml`), into a regular expression
+ */
+function mediaTypePattern(pattern: string): RegExp {
+  const source = pattern
+    .trim()
+    .toLowerCase()
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"))
+    .join("[^/]*");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Decoders of response bodies keyed by media type pattern, the most
+ * recently registered decoder matching the content type of a response
+ * is used
+ */
+export class DecoderRegistry {
+  private registrations: Registration[] = [];
+
+  constructor(decoders: Record<string, ResponseDecoder> = {}) {
+    for (const [pattern, decode] of Object.entries(decoders)) {
+      this.register(pattern, decode);
+    }
+  }
+
+  /**
+   * Registers a decoder for the media types matching the pattern, either a
+   * media type (`*` acting as wildcard) or a regular expression tested
+   * against the media type without parameters
+   */
+  register(pattern: string | RegExp, decode: ResponseDecoder): this {
+    this.registrations.push({
+      pattern:
+        typeof pattern === "string" ? mediaTypePattern(pattern) : pattern,
+      decode,
+    });
+    return this;
+  }
+
+  /**
+   * Decoder for the content type of a response, `undefined` if no
+   * registered pattern matches
+   */
+  find(contentType: string): ResponseDecoder | undefined {
+    const mediaType = (contentType.split(";")[0] ?? "").trim().toLowerCase();
+    if (!mediaType) {
+      return undefined;
+    }
+
+    for (let i = this.registrations.length - 1; i >= 0; i--) {
+      const registration = this.registrations[i] as Registration;
+      if (registration.pattern.test(mediaType)) {
+        return registration.decode;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Decodes `application/x-www-form-urlencoded` bodies into an object, the
+ * values of repeated keys are collected into an array
+ */
+export const formDecoder: ResponseDecoder = async (response) => {
+  const decoded: Record<string, string | string[]> = {};
+  new URLSearchParams(await response.text()).forEach((value, key) => {
+    const existing = decoded[key];
+    if (typeof existing === "undefined") {
+      decoded[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      decoded[key] = [existing, value];
+    }
+  });
+  return decoded;
+};
+
+/**
+ * Decodes `text/csv` bodies (RFC 4180) into an array of records keyed by
+ * the columns of the header row
+ */
+export const csvDecoder: ResponseDecoder = async (response) => {
+  const [header = [], ...rows] = parseCsv(await response.text());
+  return rows.map((row) => {
+    const record: Record<string, string> = {};
+    header.forEach((column, i) => {
+      record[column] = row[i] ?? "";
+    });
+    return record;
+  });
+};
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  // the last row may not end with a line break
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,97 @@
+import nodeFetch from "node-fetch";
+
+import type { ApiResponse } from "./core-client";
+import { RUNTIME } from "./runtime";
+
+/**
+ * Transport used to send every outgoing request, compatible with the
+ * global `fetch`, `node-fetch`, undici, etc.
+ */
+export type Fetcher = (url: string, init: RequestInit) => Promise<ApiResponse>;
+
+/**
+ * Default transport, uses `node-fetch` in node (or when the global `fetch`
+ * is unavailable) and the global `fetch` otherwise
+ */
+export const defaultFetcher: Fetcher = (url, init) => {
+  const fetcherFn =
+    RUNTIME.type === "node" || typeof fetch !== "function" ? nodeFetch : fetch;
+  return fetcherFn(url, init as any);
+};
+
+// status codes of responses which must not include a body
+const NULL_BODY_STATUS = [204, 205, 304];
+
+/**
+ * Creates a response with the status, headers and (already read) body of
+ * the response
+ */
+export function copyResponse(
+  response: ApiResponse,
+  body: ArrayBuffer
+): ApiResponse {
+  return withMeta(response, body.byteLength > 0 ? body.slice(0) : null);
+}
+
+/**
+ * Body of a response shared between copies of the response, the body is
+ * read (once) when one of the copies is read so copies which are never read
+ * neither buffer the body nor prevent reading the response itself
+ */
+export class SharedBody {
+  private response: ApiResponse;
+  private body: Promise<ArrayBuffer> | undefined;
+
+  constructor(response: ApiResponse) {
+    this.response = response;
+  }
+
+  /**
+   * Creates a copy of the response, its body may be read independently of
+   * the other copies
+   */
+  copy(): ApiResponse {
+    if (NULL_BODY_STATUS.includes(this.response.status)) {
+      return withMeta(this.response, null);
+    }
+
+    const stream = new ReadableStream<Uint8Array>(
+      {
+        pull: async (controller) => {
+          controller.enqueue(new Uint8Array(await this.read()));
+          controller.close();
+        },
+      },
+      // nothing is pulled until the copy is read
+      { highWaterMark: 0 }
+    );
+    return withMeta(this.response, stream);
+  }
+
+  /**
+   * The response itself if none of the copies was read, otherwise another
+   * copy of the response
+   */
+  async settle(): Promise<ApiResponse> {
+    return this.body
+      ? copyResponse(this.response, await this.body)
+      : this.response;
+  }
+
+  private read(): Promise<ArrayBuffer> {
+    return (this.body ??= this.response.arrayBuffer());
+  }
+}
+
+function withMeta(response: ApiResponse, body: BodyInit | null): ApiResponse {
+  const headers = new Headers();
+  response.headers.forEach((value, name) => headers.append(name, value));
+  const copy = new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+  // the URL of a response cannot be passed to its constructor
+  Object.defineProperty(copy, "url", { value: response.url });
+  return copy;
+}
@@ -0,0 +1,92 @@
+import { encodeValue } from "./path";
+
+export interface EncodeHeaderParamProps {
+  value: any;
+  explode: boolean;
+}
+
+/**
+ * Encodes a header param value using the `simple` style, the only style
+ * defined for header params
+ */
+export function encodeHeaderParam({
+  value,
+  explode,
+}: EncodeHeaderParamProps): string {
+  if (Array.isArray(value)) {
+    // simple arrays should be encoded like X-Ids: 3,4,5
+    return value.map((v) => String(v)).join(",");
+  } else if (typeof value === "object" && value !== null) {
+    if (explode) {
+      // explode simple objects should be encoded like X-Filter: key0=val0,key1=val1
+      return Object.entries(value)
+        .map(([k, v]) => `${k}=${String(v)}`)
+        .join(",");
+    } else {
+      // non-explode simple objects should be encoded like X-Filter: key0,val0,key1,val1
+      return Object.entries(value)
+        .flat()
+        .map((v) => String(v))
+        .join(",");
+    }
+  } else {
+    return String(value);
+  }
+}
+
+export interface EncodeCookieParamProps {
+  name: string;
+  value: any;
+  explode: boolean;
+}
+
+/**
+ * Encodes a cookie param using the `form` style, the only style
+ * defined for cookie params
+ */
+export function encodeCookieParam({
+  name,
+  value,
+  explode,
+}: EncodeCookieParamProps): string {
+  const key = encodeValue(name);
+  if (Array.isArray(value)) {
+    if (explode) {
+      // explode form arrays should be encoded like Cookie: id=3; id=4; id=5
+      return value.map((v) => `${key}=${encodeValue(v)}`).join("; ");
+    } else {
+      // non-explode form arrays should be encoded like Cookie: id=3,4,5
+      return `${key}=${value.map((v) => encodeValue(v)).join(",")}`;
+    }
+  } else if (typeof value === "object" && value !== null) {
+    if (explode) {
+      // explode form objects should be encoded like Cookie: key0=val0; key1=val1
+      // the input param name will be omitted
+      return Object.entries(value)
+        .map(([k, v]) => `${encodeValue(k)}=${encodeValue(v)}`)
+        .join("; ");
+    } else {
+      // non-explode form objects should be encoded like Cookie: id=key0,val0,key1,val1
+      return `${key}=${Object.entries(value)
+        .flat()
+        .map((v) => encodeValue(v))
+        .join(",")}`;
+    }
+  } else {
+    return `${key}=${encodeValue(value)}`;
+  }
+}
+
+/**
+ * Case-insensitive lookup of a header built by the `CoreClient`
+ */
+export function requestHeader(
+  reqInit: RequestInit,
+  name: string
+): string | null {
+  const headers = (reqInit.headers ?? {}) as Record<string, string>;
+  const match = Object.keys(headers).find(
+    (key) => key.toLowerCase() === name.toLowerCase()
+  );
+  return match ? (headers[match] ?? null) : null;
+}
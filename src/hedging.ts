@@ -0,0 +1,105 @@
+import type { ApiResponse, RequestConfig } from "./core-client";
+import { forwardAbort } from "./abort";
+
+export type HedgingStrategy = {
+  // time (ms) to wait for a response before sending another attempt
+  delay: number;
+  // maximum number of additional attempts sent
+  maxHedges?: number;
+  // called whenever an additional attempt is sent, `hedges` being the
+  // number of additional attempts sent so far
+  onHedge?: (context: { hedges: number; cfg: RequestConfig }) => void;
+};
+
+/**
+ * Sends the request and, while no response has been received, another
+ * attempt every `delay` ms up to `maxHedges` times. The first response
+ * received wins and all other attempts are aborted.
+ *
+ * Must only be used for safe methods since several attempts may reach
+ * the server.
+ */
+export function hedge({
+  send,
+  strategy,
+  cfg,
+  signal,
+}: {
+  send: (signal: AbortSignal) => Promise<ApiResponse>;
+  strategy: HedgingStrategy;
+  cfg: RequestConfig;
+  signal?: AbortSignal | undefined;
+}): Promise<ApiResponse> {
+  const maxHedges = strategy.maxHedges ?? 1;
+
+  return new Promise((resolve, reject) => {
+    const attempts: { controller: AbortController; cleanup: () => void }[] = [];
+    let pending = 0;
+    let hedges = 0;
+    let settled = false;
+    let timerId: ReturnType<typeof setTimeout> | undefined;
+
+    const abortLosers = (winner?: AbortController) => {
+      for (const { controller, cleanup } of attempts) {
+        if (controller !== winner) {
+          cleanup();
+          controller.abort(new Error("superseded by a hedged request"));
+        }
+      }
+    };
+
+    const launch = () => {
+      const controller = new AbortController();
+      // the winner stays linked to the caller's signal so aborting it also
+      // cancels reading the response body
+      const cleanup = forwardAbort(signal, controller);
+      attempts.push({ controller, cleanup });
+      pending++;
+
+      send(controller.signal).then(
+        (response) => {
+          pending--;
+          if (settled) {
+            return;
+          }
+          settled = true;
+          clearTimeout(timerId);
+          abortLosers(controller);
+          resolve(response);
+        },
+        (err) => {
+          pending--;
+          cleanup();
+          // failed attempts are not hedged, the error is left to the
+          // retry strategy unless another attempt is still pending
+          if (settled) {
+            return;
+          } else if (pending === 0) {
+            settled = true;
+            clearTimeout(timerId);
+            reject(err as Error);
+          }
+        }
+      );
+    };
+
+    const schedule = () => {
+      if (hedges < maxHedges) {
+        timerId = setTimeout(sendHedge, strategy.delay);
+      }
+    };
+
+    const sendHedge = () => {
+      if (settled || signal?.aborted) {
+        return;
+      }
+      hedges++;
+      strategy.onHedge?.({ hedges, cfg });
+      launch();
+      schedule();
+    };
+
+    launch();
+    schedule();
+  });
+}
@@ -1,8 +1,13 @@
 export { ApiError } from "./api-error";
-export { ApiPromise, EventSourceResponse } from "./api-promise";
+export {
+  ApiPromise,
+  ApiResponseMeta,
+  EventSourceResponse,
+} from "./api-promise";
 export {
   AuthBasic,
   AuthBearer,
+  AuthContext,
   AuthKey,
   AuthProvider,
   OAuth2,
@@ -10,16 +15,58 @@ export {
   OAuth2Password,
 } from "./auth";
 export { BinaryResponse } from "./binary-response";
+export { BodyFactory, BodyNotReplayableError } from "./body";
+export {
+  CachedResponse,
+  CacheStore,
+  HttpCache,
+  MemoryCacheStore,
+} from "./cache";
+export {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitOpenError,
+  CircuitOutcome,
+  CircuitState,
+  CircuitStateChange,
+} from "./circuit-breaker";
 export {
   ApiResponse,
   CoreClient,
   CoreClientProps,
   ResourceClientOptions,
   CoreResourceClient,
+  RequestConfig,
   RequestOptions,
 } from "./core-client";
+export {
+  csvDecoder,
+  DecoderRegistry,
+  formDecoder,
+  ResponseDecoder,
+} from "./decoders";
+export { Fetcher } from "./fetch";
 export { createForm, isUploadFile, UploadFile } from "./form-data";
+export { HedgingStrategy } from "./hedging";
+export { Middleware, MiddlewareNext } from "./middleware";
+export { encodeCookieParam, encodeHeaderParam } from "./header";
+export { encodePathParam } from "./path";
 export { encodeQueryParam } from "./query";
+export { RateLimiter, RateLimitOptions } from "./rate-limit";
+export { ErrorBody, ResponseSchemas, StatusResponse } from "./response-schemas";
+export { RetryBudget, RetryBudgetOptions } from "./retry-budget";
 export { RUNTIME } from "./runtime";
-export { RetryStrategy } from "./retry";
+export {
+  classifyError,
+  JitterStrategy,
+  RetryContext,
+  RetryErrorKind,
+  RetryStrategy,
+} from "./retry";
+export { TimeoutError, TimeoutPhase } from "./timeout";
+export {
+  ResponseValidationError,
+  ValidationErrorHandler,
+  ValidationMode,
+} from "./validation";
 export { zodRequiredAny, zodTransform, zodUploadFile } from "./zod";
@@ -0,0 +1,38 @@
+import type { ApiResponse, RequestConfig } from "./core-client";
+
+/**
+ * Invokes the remainder of the middleware chain (and ultimately the
+ * request itself) with the given request config
+ */
+export type MiddlewareNext = (cfg: RequestConfig) => Promise<ApiResponse>;
+
+/**
+ * Wraps every request made by the `CoreClient`.
+ *
+ * A middleware receives the request config before auth has been applied
+ * and the request init has been built, and may:
+ *  - mutate or replace the config before calling `next`
+ *  - inspect or replace the response returned by `next`
+ *  - catch errors raised by `next` (non-2XX responses are returned from `next`
+ *    and only converted into an `ApiError` after the whole chain has completed)
+ *  - short-circuit the chain by returning a response without calling `next`
+ *  - call `next` more than once to retry the request
+ */
+export type Middleware = (
+  cfg: RequestConfig,
+  next: MiddlewareNext
+) => Promise<ApiResponse>;
+
+/**
+ * Composes middleware into a single handler, the first middleware
+ * is the outermost layer of the chain
+ */
+export function composeMiddleware(
+  middleware: Middleware[],
+  handler: MiddlewareNext
+): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, mw) => (cfg) => mw(cfg, next),
+    handler
+  );
+}
@@ -0,0 +1,125 @@
+export type PathStyle = "simple" | "label" | "matrix";
+export interface EncodePathParamProps {
+  name: string;
+  value: any;
+  style: PathStyle;
+  explode: boolean;
+}
+
+export function encodePathParam({
+  name,
+  value,
+  style,
+  explode,
+}: EncodePathParamProps): string {
+  switch (style) {
+    case "simple":
+      return encodeSimple(value, explode);
+    case "label":
+      return encodeLabel(value, explode);
+    case "matrix":
+      return encodeMatrix(name, value, explode);
+    default:
+      throw new Error(`path param style '${style}' not implemented`);
+  }
+}
+
+export interface FormatPathProps {
+  path: string;
+  params: Record<string, any>;
+  style?: Record<string, PathStyle> | undefined;
+  explode?: Record<string, boolean> | undefined;
+}
+
+/**
+ * Replaces each `{name}` template in the path with the encoded param value
+ */
+export function formatPath({
+  path,
+  params,
+  style,
+  explode,
+}: FormatPathProps): string {
+  return path.replace(/\{([^{}]+)\}/g, (_match, name: string) => {
+    if (!(name in params)) {
+      throw new Error(`missing value for path param '${name}'`);
+    }
+
+    return encodePathParam({
+      name,
+      value: params[name],
+      style: style?.[name] ?? "simple",
+      explode: explode?.[name] ?? false,
+    });
+  });
+}
+
+/**
+ * Percent-encodes a value according to RFC 3986, consistent with
+ * the encoding `qs` uses for query params
+ */
+export function encodeValue(value: any): string {
+  if (value === null || typeof value === "undefined") {
+    return "";
+  }
+
+  return encodeURIComponent(String(value)).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Encodes arrays & objects into a list of values, objects are either
+ * encoded as `key=val` pairs (explode) or flattened into `key,val` lists
+ */
+function encodeValues(value: any, explode: boolean): string[] {
+  if (Array.isArray(value)) {
+    return value.map((v) => encodeValue(v));
+  } else if (explode) {
+    return Object.entries(value).map(
+      ([k, v]) => `${encodeValue(k)}=${encodeValue(v)}`
+    );
+  } else {
+    return Object.entries(value)
+      .flat()
+      .map((v) => encodeValue(v));
+  }
+}
+
+function isCollection(value: any): boolean {
+  return typeof value === "object" && value !== null;
+}
+
+function encodeSimple(value: any, explode: boolean): string {
+  // simple style should be encoded like /users/3,4,5 or /users/role=admin,id=5
+  return isCollection(value)
+    ? encodeValues(value, explode).join(",")
+    : encodeValue(value);
+}
+
+function encodeLabel(value: any, explode: boolean): string {
+  // label style should be encoded like /users/.3.4.5 (explode) or /users/.3,4,5
+  if (!isCollection(value)) {
+    return `.${encodeValue(value)}`;
+  }
+
+  return `.${encodeValues(value, explode).join(explode ? "." : ",")}`;
+}
+
+function encodeMatrix(name: string, value: any, explode: boolean): string {
+  // matrix style should be encoded like /users/;id=3;id=4 (explode) or /users/;id=3,4
+  const key = encodeValue(name);
+  if (!isCollection(value)) {
+    const encoded = encodeValue(value);
+    return encoded.length > 0 ? `;${key}=${encoded}` : `;${key}`;
+  } else if (!explode) {
+    return `;${key}=${encodeValues(value, explode).join(",")}`;
+  } else if (Array.isArray(value)) {
+    return value.map((v) => `;${key}=${encodeValue(v)}`).join("");
+  } else {
+    return encodeValues(value, explode)
+      .map((pair) => `;${pair}`)
+      .join("");
+  }
+}
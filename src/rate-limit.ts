@@ -0,0 +1,219 @@
+import { parseRateLimitReset, type HeadersLike } from "./retry";
+
+export type RateLimitOptions = {
+  // number of requests allowed per `interval`, unlimited if not set
+  requests?: number;
+  // length (ms) of the interval `requests` applies to
+  interval?: number;
+  // number of requests that may be sent at once after being idle,
+  // defaults to `requests`
+  burst?: number;
+  // number of requests that may await their response headers at once
+  maxConcurrency?: number;
+  // lower the remaining quota according to the `RateLimit`,
+  // `RateLimit-Remaining` or `X-RateLimit-Remaining` response headers and
+  // pause until their reset time once it has been exhausted
+  adaptive?: boolean;
+};
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (err: unknown) => void;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+}
+
+/**
+ * Token bucket rate limiter combined with a concurrency limit, requests
+ * exceeding either limit are queued and sent in order once allowed.
+ *
+ * Details:
+ *    https://en.wikipedia.org/wiki/Token_bucket
+ */
+export class RateLimiter {
+  private capacity: number;
+  // tokens added per ms, `undefined` if the rate is unlimited
+  private refillRate: number | undefined;
+  private maxConcurrency: number;
+  private adaptive: boolean;
+
+  private tokens: number;
+  private lastRefill: number;
+  private active: number = 0;
+  private pausedUntil: number = 0;
+  private queue: Waiter[] = [];
+  private timerId: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: RateLimitOptions = {}) {
+    const interval = options.interval ?? 1000;
+    this.refillRate =
+      typeof options.requests !== "undefined"
+        ? options.requests / interval
+        : undefined;
+    this.capacity = options.burst ?? options.requests ?? Infinity;
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.adaptive = options.adaptive ?? false;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Number of requests waiting to be sent
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Waits until the request may be sent, rejecting with the abort reason
+   * if the signal is aborted first. The returned function must be called
+   * once the response headers have been received (or the request failed).
+   */
+  acquire(signal?: AbortSignal | undefined): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason as Error);
+    } else if (this.queue.length === 0 && this.waitTime() === 0) {
+      return Promise.resolve(this.take());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          this.queue = this.queue.filter((w) => w !== waiter);
+          reject(signal?.reason as Error);
+          this.drain();
+        },
+      };
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Adapts the remaining quota to the rate limit headers of a response
+   */
+  update({
+    statusCode,
+    headers,
+  }: {
+    statusCode: number;
+    headers?: HeadersLike | undefined;
+  }) {
+    if (!this.adaptive || !headers) {
+      return;
+    }
+
+    const fields = parseRateLimitFields(headers.get("ratelimit"));
+    const remaining = Number.parseFloat(
+      headers.get("ratelimit-remaining") ??
+        headers.get("x-ratelimit-remaining") ??
+        fields["remaining"] ??
+        fields["r"] ??
+        ""
+    );
+    const reset = parseRateLimitReset(
+      headers.get("ratelimit-reset") ??
+        headers.get("x-ratelimit-reset") ??
+        fields["reset"] ??
+        fields["t"] ??
+        null
+    );
+
+    if (!Number.isNaN(remaining)) {
+      this.refill();
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+
+    const exhausted =
+      statusCode === 429 || (!Number.isNaN(remaining) && remaining <= 0);
+    if (exhausted && typeof reset !== "undefined") {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + reset);
+    }
+  }
+
+  private take(): () => void {
+    this.refill();
+    this.active++;
+    if (typeof this.refillRate !== "undefined") {
+      this.tokens--;
+    }
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.active--;
+        this.drain();
+      }
+    };
+  }
+
+  private refill() {
+    const now = Date.now();
+    if (typeof this.refillRate !== "undefined") {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (now - this.lastRefill) * this.refillRate
+      );
+    }
+    this.lastRefill = now;
+  }
+
+  /**
+   * Time (ms) until the next request may be sent, `Infinity` if it has to
+   * wait for an active request to complete
+   */
+  private waitTime(): number {
+    this.refill();
+    const now = Date.now();
+    if (this.active >= this.maxConcurrency) {
+      return Infinity;
+    } else if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    } else if (typeof this.refillRate !== "undefined" && this.tokens < 1) {
+      return (1 - this.tokens) / this.refillRate;
+    }
+
+    return 0;
+  }
+
+  private drain() {
+    clearTimeout(this.timerId);
+    this.timerId = undefined;
+
+    while (this.queue.length > 0) {
+      const wait = this.waitTime();
+      if (wait > 0) {
+        if (wait !== Infinity) {
+          this.timerId = setTimeout(() => this.drain(), Math.ceil(wait));
+        }
+        return;
+      }
+
+      const waiter = this.queue.shift() as Waiter;
+      waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      waiter.resolve(this.take());
+    }
+  }
+}
+
+/**
+ * Parses the fields of the structured IETF `RateLimit` header, supporting
+ * both `limit=100, remaining=50, reset=30` and `"default";r=50;t=30`
+ */
+function parseRateLimitFields(
+  header: string | null
+): Record<string, string | undefined> {
+  const fields: Record<string, string | undefined> = {};
+  for (const field of (header ?? "").split(/[,;]/)) {
+    const [name, value] = field.split("=");
+    if (name && typeof value !== "undefined") {
+      fields[name.trim().toLowerCase()] = value.trim();
+    }
+  }
+  return fields;
+}
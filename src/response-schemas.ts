@@ -0,0 +1,49 @@
+import type * as z from "zod";
+
+/**
+ * Response schemas keyed by status code (e.g. `"201"`), status range
+ * (`"2XX"`) or `"default"` for any status without a more specific schema
+ */
+export type ResponseSchemas = { [status: string]: z.ZodTypeAny };
+
+type StatusOf<K extends string> = K extends `${infer N extends number}`
+  ? N
+  : number;
+
+/**
+ * Parsed successful responses of a request using `responseSchemas`,
+ * discriminated on their status
+ */
+export type StatusResponse<S extends ResponseSchemas> = {
+  [K in keyof S & string]: K extends `2${string}` | "default"
+    ? { status: StatusOf<K>; data: z.infer<S[K]> }
+    : never;
+}[keyof S & string];
+
+/**
+ * Parsed body of the `ApiError` raised by a request using `responseSchemas`
+ */
+export type ErrorBody<S extends ResponseSchemas> = {
+  [K in keyof S & string]: K extends `2${string}` ? never : z.infer<S[K]>;
+}[keyof S & string];
+
+/**
+ * Selects the schema of a response, preferring an exact status code over
+ * its range over the `default` schema
+ */
+export function selectResponseSchema(
+  schemas: ResponseSchemas | undefined,
+  status: number
+): z.ZodTypeAny | undefined {
+  if (!schemas) {
+    return undefined;
+  }
+
+  const range = Math.floor(status / 100);
+  return (
+    schemas[String(status)] ??
+    schemas[`${range}XX`] ??
+    schemas[`${range}xx`] ??
+    schemas["default"]
+  );
+}
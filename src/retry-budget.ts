@@ -0,0 +1,93 @@
+export type RetryBudgetOptions = {
+  // fraction (0-1) of the requests within the window that may be retried
+  percentCanRetry?: number;
+  // retries per second allowed regardless of the number of requests
+  minRetriesPerSecond?: number;
+  // time (ms) requests and retries are remembered for
+  ttl?: number;
+};
+
+// number of buckets the window is divided into, the window slides
+// forward one bucket at a time
+const BUCKETS = 10;
+
+interface Bucket {
+  start: number;
+  deposits: number;
+  withdrawals: number;
+}
+
+/**
+ * Limits retries to a fraction of the recent requests, plus a minimum
+ * rate, so an outage does not multiply the load on a service by the
+ * number of retries
+ *
+ * Details:
+ *    https://twitter.github.io/finagle/guide/Clients.html#retries
+ */
+export class RetryBudget {
+  private percentCanRetry: number;
+  private minRetries: number;
+  private ttl: number;
+  private buckets: Bucket[] = [];
+
+  constructor(options: RetryBudgetOptions = {}) {
+    this.percentCanRetry = options.percentCanRetry ?? 0.2;
+    this.ttl = options.ttl ?? 10000;
+    this.minRetries = ((options.minRetriesPerSecond ?? 10) * this.ttl) / 1000;
+  }
+
+  /**
+   * Number of retries currently allowed
+   */
+  get balance(): number {
+    let deposits = 0;
+    let withdrawals = 0;
+    for (const bucket of this.currentBuckets()) {
+      deposits += bucket.deposits;
+      withdrawals += bucket.withdrawals;
+    }
+
+    return Math.floor(
+      this.minRetries + deposits * this.percentCanRetry - withdrawals
+    );
+  }
+
+  /**
+   * Records a request that is not a retry
+   */
+  deposit() {
+    this.currentBucket().deposits++;
+  }
+
+  /**
+   * Records a retry if the budget allows it, returns `false` otherwise
+   */
+  tryWithdraw(): boolean {
+    if (this.balance < 1) {
+      return false;
+    }
+
+    this.currentBucket().withdrawals++;
+    return true;
+  }
+
+  private currentBuckets(): Bucket[] {
+    const expired = Date.now() - this.ttl;
+    this.buckets = this.buckets.filter((bucket) => bucket.start > expired);
+    return this.buckets;
+  }
+
+  private currentBucket(): Bucket {
+    const bucketSize = this.ttl / BUCKETS;
+    const start = Math.floor(Date.now() / bucketSize) * bucketSize;
+    const buckets = this.currentBuckets();
+    let bucket = buckets[buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, deposits: 0, withdrawals: 0 };
+      buckets.push(bucket);
+    }
+
+    return bucket;
+  }
+}
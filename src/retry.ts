@@ -1,24 +1,197 @@
+import type { ApiResponse, HttpMethod, RequestConfig } from "./core-client";
+import { TimeoutError } from "./timeout";
+import type { RetryBudget } from "./retry-budget";
+import type { SharedBody } from "./fetch";
+
+/**
+ * Methods that do not modify server state and are therefore always
+ * safe to repeat (RFC 9110 9.2.1), including the QUERY method which
+ * carries a body
+ */
+const SAFE_METHODS: HttpMethod[] = ["get", "head", "options", "trace", "query"];
+
+/**
+ * Methods whose intended effect is the same whether sent once or
+ * many times (RFC 9110 9.2.2)
+ */
+const IDEMPOTENT_METHODS: HttpMethod[] = [...SAFE_METHODS, "put", "delete"];
+
+export function isSafeMethod(method: HttpMethod): boolean {
+  return SAFE_METHODS.includes(method);
+}
+
+export function isIdempotentMethod(method: HttpMethod): boolean {
+  return IDEMPOTENT_METHODS.includes(method);
+}
+
+/**
+ * Randomization applied to the backoff delay to avoid clients retrying
+ * in lockstep
+ *
+ * Details:
+ *    https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export type JitterStrategy = "none" | "full" | "equal" | "decorrelated";
+
+/**
+ * Kinds of request failures (where no response was received)
+ *  - connection: the connection could not be established or was lost,
+ *    e.g. DNS failures, refused or reset connections
+ *  - timeout: the request timed out while waiting for the response headers
+ */
+export type RetryErrorKind = "connection" | "timeout";
+
+const TIMEOUT_ERROR_CODES = [
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+];
+const CONNECTION_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "ENETDOWN",
+  "EHOSTUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CLOSED",
+];
+
+/**
+ * Classifies errors raised while sending a request, returns `undefined`
+ * for errors that are not transient (e.g. the request was cancelled)
+ */
+export function classifyError(error: unknown): RetryErrorKind | undefined {
+  if (error instanceof TimeoutError) {
+    // only header timeouts are caused by the service, the total timeout
+    // covers all attempts and queue timeouts are caused by local rate limits
+    return error.phase === "headers" ? "timeout" : undefined;
+  } else if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  // node-fetch sets the system error code on the error itself,
+  // the global fetch (undici) on its cause
+  const err = error as { code?: unknown; cause?: { code?: unknown } };
+  const code = err.code ?? err.cause?.code;
+  if (typeof code === "string" && TIMEOUT_ERROR_CODES.includes(code)) {
+    return "timeout";
+  } else if (
+    typeof code === "string" &&
+    CONNECTION_ERROR_CODES.includes(code)
+  ) {
+    return "connection";
+  } else if (
+    error instanceof TypeError &&
+    /fetch failed|failed to fetch|networkerror|load failed/i.test(error.message)
+  ) {
+    // browsers only expose network failures as generic type errors
+    return "connection";
+  }
+
+  return undefined;
+}
+
+/**
+ * Attempt about to be retried, passed to the `shouldRetry` and
+ * `onRetry` hooks of the `RetryStrategy`
+ */
+export interface RetryContext {
+  // number of the attempt that failed, starting at 1
+  attempt: number;
+  // copy of the response of the attempt, its body may be read
+  response?: ApiResponse | undefined;
+  // error raised by the attempt if there was no response
+  error?: unknown;
+  cfg: RequestConfig;
+  // time (ms) to wait before the next attempt
+  delay: number;
+}
+
 export type RetryStrategy = {
   maxRetries?: number;
   statusCodes?: number[];
   initialDelay?: number;
   maxDelay?: number;
   backoffFactor?: number;
+  // wait as long as the server asks via the `Retry-After` or rate limit
+  // reset headers (capped by `maxDelay`) rather than backing off
+  respectRetryAfter?: boolean;
+  jitter?: JitterStrategy;
+  // failures without a response that should be retried
+  errorKinds?: RetryErrorKind[];
+  // generate an `Idempotency-Key` header for requests using methods that
+  // are not idempotent (e.g. POST), allowing them to be retried
+  idempotencyKey?: boolean;
+  // decides whether the attempt should be retried, overriding the decision
+  // based on `statusCodes` and `errorKinds` (passed as `retryable`) unless
+  // `undefined` is returned, `maxRetries` always applies
+  shouldRetry?: (
+    context: RetryContext & { retryable: boolean }
+  ) => MaybePromise<boolean | undefined>;
+  // called before waiting for the next attempt, may return a different
+  // delay (ms) or `false` to stop retrying
+  onRetry?: (context: RetryContext) => MaybePromise<number | false | void>;
 };
 
+type MaybePromise<T> = T | Promise<T>;
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Generates a unique key identifying a logical request across all attempts
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+
+  // RFC 4122 v4 UUID fallback for runtimes without `crypto.randomUUID`
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = Math.floor(Math.random() * 16);
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Minimal interface of the response headers of all supported fetch
+ * implementations
+ */
+export interface HeadersLike {
+  get(name: string): string | null;
+}
+
 export class RetryConfig {
   maxRetries: number;
   statusCodes: number[];
   initialDelay: number;
   maxDelay: number;
   backoffFactor: number;
+  respectRetryAfter: boolean;
+  jitter: JitterStrategy;
+  errorKinds: RetryErrorKind[];
+  idempotencyKey: boolean;
+  retryPredicate: RetryStrategy["shouldRetry"];
+  onRetry: RetryStrategy["onRetry"];
+  private random: () => number;
+  private budget: RetryBudget | undefined;
 
   constructor({
     base,
     override,
+    random,
+    budget,
   }: {
     base?: RetryStrategy | undefined;
     override?: RetryStrategy | undefined;
+    // source of random numbers in [0, 1) used for jitter
+    random?: (() => number) | undefined;
+    // budget shared by all requests of the client that every retry
+    // is withdrawn from
+    budget?: RetryBudget | undefined;
   }) {
     this.maxRetries = override?.maxRetries ?? base?.maxRetries ?? 5;
     this.statusCodes = override?.statusCodes ??
@@ -31,6 +204,17 @@ export class RetryConfig {
     this.initialDelay = override?.initialDelay ?? base?.initialDelay ?? 500;
     this.maxDelay = override?.maxDelay ?? base?.maxDelay ?? 10000;
     this.backoffFactor = override?.backoffFactor ?? base?.backoffFactor ?? 2.0;
+    this.respectRetryAfter =
+      override?.respectRetryAfter ?? base?.respectRetryAfter ?? true;
+    this.jitter = override?.jitter ?? base?.jitter ?? "none";
+    this.errorKinds = override?.errorKinds ??
+      base?.errorKinds ?? ["connection", "timeout"];
+    this.idempotencyKey =
+      override?.idempotencyKey ?? base?.idempotencyKey ?? false;
+    this.retryPredicate = override?.shouldRetry ?? base?.shouldRetry;
+    this.onRetry = override?.onRetry ?? base?.onRetry;
+    this.random = random ?? Math.random;
+    this.budget = budget;
   }
 
   /**
@@ -56,21 +240,77 @@ export class RetryConfig {
   }
 
   /**
-   * Checks if a retry is allowed according to the config
+   * Checks if a retry is allowed according to the config, given either the
+   * status code of the response or the error raised if there was none.
+   *
+   * Idempotent methods may always be repeated, other methods (e.g. POST)
+   * are only retried when the request carries an `Idempotency-Key`
+   * so the server can detect duplicates.
    */
   public shouldRetry({
     attempt,
     statusCode,
+    error,
+    method,
+    hasIdempotencyKey,
   }: {
     attempt: number;
-    statusCode: number;
+    statusCode?: number | undefined;
+    error?: unknown;
+    method?: HttpMethod | undefined;
+    hasIdempotencyKey?: boolean | undefined;
   }): boolean {
-    return (
-      attempt <= this.maxRetries &&
-      this.statusCodes.some((retryCode) =>
+    if (attempt > this.maxRetries) {
+      return false;
+    } else if (method && !isIdempotentMethod(method) && !hasIdempotencyKey) {
+      return false;
+    } else if (typeof statusCode !== "undefined") {
+      return this.statusCodes.some((retryCode) =>
         this.matchesCode({ statusCode, retryCode })
-      )
-    );
+      );
+    }
+
+    const kind = classifyError(error);
+    return typeof kind !== "undefined" && this.errorKinds.includes(kind);
+  }
+
+  /**
+   * Runs the `shouldRetry` hook and consults the retry budget before
+   * running the `onRetry` hook, the budget is only spent once `onRetry`
+   * approved the retry. Returns the time (ms) to wait before the next
+   * attempt or `undefined` if the attempt should not be retried
+   */
+  public async decideRetry({
+    retryable,
+    context,
+    body,
+  }: {
+    retryable: boolean;
+    context: RetryContext;
+    // body of the response shared with the hooks, each hook receiving a
+    // copy of the response so reading it leaves the response readable
+    body?: SharedBody | undefined;
+  }): Promise<number | undefined> {
+    const hookContext = <C extends RetryContext>(ctx: C): C =>
+      body ? { ...ctx, response: body.copy() } : ctx;
+
+    const decision = this.retryPredicate
+      ? ((await this.retryPredicate(hookContext({ ...context, retryable }))) ??
+        retryable)
+      : retryable;
+    if (!decision || (this.budget && this.budget.balance < 1)) {
+      return undefined;
+    }
+
+    const delay = this.onRetry
+      ? await this.onRetry(hookContext({ ...context }))
+      : undefined;
+    // the budget is only spent once the retry has been approved
+    if (delay === false || (this.budget && !this.budget.tryWithdraw())) {
+      return undefined;
+    }
+
+    return typeof delay === "number" ? delay : context.delay;
   }
 
   /**
@@ -80,7 +320,113 @@ export class RetryConfig {
   public calcNextDelay({ currDelay }: { currDelay: number }): number {
     return Math.min(this.maxDelay, currDelay * this.backoffFactor);
   }
+
+  /**
+   * Applies the jitter strategy to the backoff delay (ms), `prevDelay` is
+   * the previously jittered delay used by the decorrelated strategy
+   */
+  public calcJitteredDelay({
+    delay,
+    prevDelay,
+  }: {
+    delay: number;
+    prevDelay: number;
+  }): number {
+    switch (this.jitter) {
+      case "full":
+        return this.random() * delay;
+      case "equal":
+        return delay / 2 + (this.random() * delay) / 2;
+      case "decorrelated": {
+        const upper = Math.max(this.initialDelay, prevDelay * 3);
+        return Math.min(
+          this.maxDelay,
+          this.initialDelay + this.random() * (upper - this.initialDelay)
+        );
+      }
+      case "none":
+      default:
+        return delay;
+    }
+  }
+
+  /**
+   * Calculates the time (ms) the server asked the retrier to wait before
+   * the next attempt, if any, according to the `Retry-After` header or,
+   * for 429 responses, the `RateLimit-Reset`/`X-RateLimit-Reset` headers
+   */
+  public calcServerDelay({
+    statusCode,
+    headers,
+  }: {
+    statusCode: number;
+    headers?: HeadersLike | undefined;
+  }): number | undefined {
+    if (!this.respectRetryAfter || !headers) {
+      return undefined;
+    }
+
+    let delay = parseRetryAfter(headers.get("retry-after"));
+    if (typeof delay === "undefined" && statusCode === 429) {
+      delay = parseRateLimitReset(
+        headers.get("ratelimit-reset") ?? headers.get("x-ratelimit-reset")
+      );
+    }
+
+    return typeof delay === "undefined"
+      ? undefined
+      : Math.min(this.maxDelay, Math.max(0, delay));
+  }
 }
 
-export const sleep = (ms: number) =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Parses the `Retry-After` header which is either a number of seconds
+ * or an HTTP-date (RFC 9110 10.2.3) into a delay (ms)
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (value === null || value.trim().length === 0) {
+    return undefined;
+  } else if (/^\d+$/.test(value.trim())) {
+    return Number.parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date - Date.now();
+}
+
+/**
+ * Parses rate limit reset headers into a delay (ms), the value is either a
+ * number of seconds until the reset (IETF `RateLimit-Reset`) or, as used by
+ * many `X-RateLimit-Reset` implementations, the reset time in epoch seconds
+ */
+export function parseRateLimitReset(value: string | null): number | undefined {
+  const seconds = Number.parseFloat(value ?? "");
+  if (Number.isNaN(seconds)) {
+    return undefined;
+  }
+
+  // values this large can only be timestamps (~1 Jan 2001 onwards)
+  return seconds > 1e9 ? seconds * 1000 - Date.now() : seconds * 1000;
+}
+
+/**
+ * Waits for the given time (ms), rejecting early with the abort reason
+ * if the signal is aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal | undefined) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason as Error);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason as Error);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
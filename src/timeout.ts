@@ -0,0 +1,46 @@
+/**
+ * Phases of a request that can be individually timed out
+ *  - queue: time an attempt waits for rate limits before it is sent, uses
+ *    the same timeout as `headers`
+ *  - headers: time until the response headers are received (per attempt)
+ *  - total: time until the response body has been fully read and parsed,
+ *    including all retries
+ *  - idle: time between chunks of an event stream
+ */
+export type TimeoutPhase = "queue" | "headers" | "total" | "idle";
+
+export class TimeoutError extends Error {
+  phase: TimeoutPhase;
+  timeout: number;
+
+  constructor(phase: TimeoutPhase, timeout: number) {
+    super(`${phase} timeout of ${timeout}ms exceeded`);
+    this.name = "TimeoutError";
+    this.phase = phase;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Races the promise against a timer, rejecting with a `TimeoutError`
+ * for the given phase if the timer fires first
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  phase: TimeoutPhase,
+  timeout: number | undefined
+): Promise<T> {
+  if (typeof timeout === "undefined") {
+    return promise;
+  }
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timer = new Promise<never>((_resolve, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new TimeoutError(phase, timeout)),
+      timeout
+    );
+  });
+
+  return Promise.race([promise, timer]).finally(() => clearTimeout(timeoutId));
+}
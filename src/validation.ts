@@ -0,0 +1,87 @@
+import type * as z from "zod";
+import type { RequestConfig } from "./core-client";
+
+/**
+ * How responses are checked against their `responseSchema`
+ *  - strict: invalid responses raise a `ResponseValidationError`
+ *  - passthrough: responses are returned as received, without validation
+ *  - warn: invalid responses are returned as received and the
+ *    `ResponseValidationError` is reported to the error handler
+ */
+export type ValidationMode = "strict" | "passthrough" | "warn";
+
+export type ValidationErrorHandler = (error: ResponseValidationError) => void;
+
+export class ResponseValidationError extends Error {
+  issues: z.ZodIssue[];
+  // the response data as received, before validation
+  rawJson: unknown;
+  status: number;
+  request: RequestConfig | undefined;
+
+  constructor({
+    issues,
+    rawJson,
+    status,
+    request,
+  }: {
+    issues: z.ZodIssue[];
+    rawJson: unknown;
+    status: number;
+    request?: RequestConfig | undefined;
+  }) {
+    const source = request ? ` from ${request.method} ${request.path}` : "";
+    const details = issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    super(`${status} response${source} failed validation: ${details}`);
+    this.name = "ResponseValidationError";
+    this.issues = issues;
+    this.rawJson = rawJson;
+    this.status = status;
+    this.request = request;
+  }
+}
+
+/**
+ * Validates response data against the schema according to the mode,
+ * returning the parsed data or, if it is not validated strictly, the
+ * data as received
+ */
+export function validateResponse<T>({
+  schema,
+  rawJson,
+  status,
+  request,
+  mode = "strict",
+  onError,
+}: {
+  schema: z.Schema | undefined;
+  rawJson: unknown;
+  status: number;
+  request?: RequestConfig | undefined;
+  mode?: ValidationMode | undefined;
+  onError?: ValidationErrorHandler | undefined;
+}): T {
+  if (!schema || mode === "passthrough") {
+    return rawJson as T;
+  }
+
+  const result = schema.safeParse(rawJson);
+  if (result.success) {
+    return result.data as T;
+  }
+
+  const error = new ResponseValidationError({
+    issues: result.error.issues,
+    rawJson,
+    status,
+    request,
+  });
+  if (mode === "strict") {
+    throw error;
+  }
+
+  onError?.(error);
+  return rawJson as T;
+}
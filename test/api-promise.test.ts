@@ -1,4 +1,6 @@
 import { ApiPromise } from "../src/api-promise";
+import { TimeoutError } from "../src/timeout";
+import { ResponseValidationError } from "../src/validation";
 import { z } from "zod";
 
 describe("ApiPromise", () => {
@@ -71,7 +73,28 @@ describe("ApiPromise", () => {
         responseSchema: schema,
       });
 
-      await expect(promise).rejects.toThrow();
+      await expect(promise).rejects.toThrow(ResponseValidationError);
+    });
+
+    it("should return invalid data as received in warn mode", async () => {
+      const invalidData = { id: "invalid" };
+      mockResponse.json.mockResolvedValue(invalidData);
+      mockResponse.headers.get.mockReturnValue("application/json");
+      const onValidationError = jest.fn();
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(mockResponse),
+        responseRaw: false,
+        responseStream: false,
+        responseSchema: z.object({ id: z.number() }),
+        validation: "warn",
+        onValidationError,
+      });
+
+      expect(await promise).toBe(invalidData);
+      expect(onValidationError).toHaveBeenCalledWith(
+        expect.objectContaining({ rawJson: invalidData, status: 200 })
+      );
     });
   });
 
@@ -106,6 +129,37 @@ describe("ApiPromise", () => {
     });
   });
 
+  describe("responses without a body", () => {
+    it("should resolve null for HEAD requests", async () => {
+      mockResponse.headers.get.mockReturnValue("application/json");
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(mockResponse),
+        responseRaw: false,
+        responseStream: false,
+        method: "head",
+      });
+
+      const result = await promise;
+      expect(result).toBeNull();
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+
+    it("should resolve null for 304 responses", async () => {
+      mockResponse.headers.get.mockReturnValue("application/json");
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve({ ...mockResponse, status: 304 }),
+        responseRaw: false,
+        responseStream: false,
+      });
+
+      const result = await promise;
+      expect(result).toBeNull();
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+  });
+
   describe("blob parsing", () => {
     it("should parse blob response", async () => {
       const blob = new Blob(["test"], { type: "text/plain" });
@@ -159,6 +213,68 @@ describe("ApiPromise", () => {
     });
   });
 
+  describe("withResponse", () => {
+    it("should return the data, response and metadata", async () => {
+      const response = new Response(JSON.stringify({ id: 1 }), {
+        status: 201,
+        headers: {
+          "content-type": "application/json",
+          "x-request-id": "req_123",
+        },
+      });
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(response),
+        responseRaw: false,
+        responseStream: false,
+        stats: {
+          url: "https://api.example.com/users",
+          attempts: 2,
+          hedges: 1,
+          startedAt: Date.now() - 50,
+          headersAt: Date.now() - 10,
+        },
+      });
+
+      const { data, response: raw, meta } = await promise.withResponse();
+
+      expect(data).toEqual({ id: 1 });
+      expect(raw).toBe(response);
+      expect(meta).toMatchObject({
+        url: "https://api.example.com/users",
+        status: 201,
+        requestId: "req_123",
+        attempts: 2,
+        hedges: 1,
+      });
+      expect(meta.timing.headers).toBeGreaterThanOrEqual(40);
+      expect(meta.timing.total).toBeGreaterThanOrEqual(meta.timing.headers);
+    });
+
+    it("should default the metadata without request statistics", async () => {
+      mockResponse.text.mockResolvedValue("ok");
+      mockResponse.headers.get.mockImplementation((name: string) =>
+        name === "content-type" ? "text/plain" : null
+      );
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(mockResponse),
+        responseRaw: false,
+        responseStream: false,
+      });
+
+      const { data, meta } = await promise.withResponse();
+
+      expect(data).toBe("ok");
+      expect(meta).toMatchObject({
+        url: "",
+        status: 200,
+        requestId: null,
+        attempts: 1,
+        hedges: 0,
+        timing: { headers: 0, total: 0 },
+      });
+    });
+  });
+
   describe("response type detection", () => {
     it("should detect JSON content type", async () => {
       mockResponse.headers.get.mockReturnValue(
@@ -439,6 +555,33 @@ describe("ApiPromise", () => {
       expect(results[0]).toEqual({ data: { test: "valid" } });
     });
 
+    it("should reject invalid events with a ResponseValidationError", async () => {
+      const mockNodeStream = {
+        pipe: jest.fn(),
+        [Symbol.asyncIterator]: async function* () {
+          yield Buffer.from('data: {"test": 1}\n\n');
+        },
+      };
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: { get: jest.fn() },
+          body: mockNodeStream,
+        } as any),
+        responseRaw: false,
+        responseStream: true,
+        responseSchema: z.object({ data: z.object({ test: z.string() }) }),
+      });
+
+      await expect(promise.asEventStream().next()).rejects.toMatchObject({
+        name: "ResponseValidationError",
+        rawJson: { data: { test: 1 } },
+        status: 200,
+      });
+    });
+
     it("should throw error for streaming without body", async () => {
       const mockStreamResponse = {
         ok: true,
@@ -632,6 +775,252 @@ describe("ApiPromise", () => {
     });
   });
 
+  describe("memoization", () => {
+    it("should only parse the body once", async () => {
+      mockResponse.headers.get.mockReturnValue("application/json");
+      mockResponse.json.mockResolvedValue({ id: 1 });
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(mockResponse),
+        responseRaw: false,
+        responseStream: false,
+      });
+
+      expect(await promise).toEqual({ id: 1 });
+      expect(await promise).toEqual({ id: 1 });
+      expect(await promise.catch(() => null).then((data) => data)).toEqual({
+        id: 1,
+      });
+      expect((await promise.withResponse()).data).toEqual({ id: 1 });
+      expect(mockResponse.json).toHaveBeenCalledTimes(1);
+    });
+
+    it("should share the outcome of a failed request", async () => {
+      const promise = new ApiPromise({
+        responsePromise: Promise.reject(new Error("failed")),
+        responseRaw: false,
+        responseStream: false,
+      });
+
+      await expect(promise).rejects.toThrow("failed");
+      await expect(promise.finally(() => {})).rejects.toThrow("failed");
+      expect(await promise.catch((err: Error) => err.message)).toBe("failed");
+    });
+
+    it("should share a single event stream iterator", async () => {
+      const mockStreamResponse = {
+        ok: true,
+        status: 200,
+        headers: { get: jest.fn().mockReturnValue("text/event-stream") },
+        body: {
+          pipe: jest.fn(),
+          [Symbol.asyncIterator]: async function* () {
+            yield Buffer.from('data: {"n": 1}\n\ndata: {"n": 2}\n\n');
+            yield Buffer.from('data: {"n": 3}\n\n');
+          },
+        },
+      };
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(mockStreamResponse as any),
+        responseRaw: false,
+        responseStream: true,
+      });
+
+      expect(promise.asEventStream()).toBe(promise.asEventStream());
+      expect((await promise.next()).value).toEqual({ data: { n: 1 } });
+      expect((await promise.next()).value).toEqual({ data: { n: 2 } });
+      const results = [];
+      for await (const chunk of promise) {
+        results.push(chunk);
+      }
+      expect(results).toEqual([{ data: { n: 3 } }]);
+    });
+
+    it("should not cause unhandled rejections when never consumed", async () => {
+      const onUnhandled = jest.fn();
+      process.on("unhandledRejection", onUnhandled);
+
+      try {
+        void new ApiPromise({
+          responsePromise: Promise.reject(new Error("failed")),
+          responseRaw: false,
+          responseStream: false,
+        });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(onUnhandled).not.toHaveBeenCalled();
+      } finally {
+        process.off("unhandledRejection", onUnhandled);
+      }
+    });
+  });
+
+  describe("cancel", () => {
+    it("should abort the controller", () => {
+      const abortController = new AbortController();
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(mockResponse),
+        responseRaw: false,
+        responseStream: false,
+        abortController,
+      });
+
+      promise.cancel();
+      expect(abortController.signal.aborted).toBe(true);
+    });
+
+    it("should stop an in-progress event stream", async () => {
+      const abortController = new AbortController();
+      const mockNodeStream = {
+        pipe: jest.fn(),
+        [Symbol.asyncIterator]: async function* () {
+          yield Buffer.from('data: {"n": 1}\n\n');
+          yield Buffer.from('data: {"n": 2}\n\n');
+        },
+      };
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve({
+          ok: true,
+          status: 200,
+          body: mockNodeStream,
+        } as any),
+        responseRaw: false,
+        responseStream: true,
+        abortController,
+      });
+
+      const stream = promise.asEventStream();
+      expect(await stream.next()).toEqual({
+        value: { data: { n: 1 } },
+        done: false,
+      });
+
+      promise.cancel(new Error("cancelled"));
+      await expect(stream.next()).rejects.toThrow("cancelled");
+    });
+  });
+
+  describe("timeouts", () => {
+    it("should raise a TimeoutError when an event stream goes idle", async () => {
+      const mockNodeStream = {
+        pipe: jest.fn(),
+        [Symbol.asyncIterator]: async function* () {
+          yield Buffer.from('data: {"n": 1}\n\n');
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+          yield Buffer.from('data: {"n": 2}\n\n');
+        },
+      };
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve({
+          ok: true,
+          status: 200,
+          body: mockNodeStream,
+        } as any),
+        responseRaw: false,
+        responseStream: true,
+        idleTimeout: 20,
+      });
+
+      const stream = promise.asEventStream();
+      expect((await stream.next()).value).toEqual({ data: { n: 1 } });
+      await expect(stream.next()).rejects.toThrow(TimeoutError);
+    });
+
+    it("should cancel a stalled web stream on idle timeout", async () => {
+      const mockReader = {
+        read: jest.fn().mockReturnValue(new Promise(() => {})),
+        cancel: jest.fn().mockResolvedValue(undefined),
+        releaseLock: jest.fn(),
+      };
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve({
+          ok: true,
+          status: 200,
+          body: { getReader: () => mockReader },
+        } as any),
+        responseRaw: false,
+        responseStream: true,
+        idleTimeout: 20,
+      });
+
+      await expect(promise.asEventStream().next()).rejects.toMatchObject({
+        phase: "idle",
+      });
+      expect(mockReader.cancel).toHaveBeenCalled();
+      expect(mockReader.releaseLock).toHaveBeenCalled();
+    });
+
+    it("should not time out once the body has been parsed", async () => {
+      mockResponse.headers.get.mockReturnValue("application/json");
+      mockResponse.json.mockResolvedValue({ data: "test" });
+      const abortController = new AbortController();
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(mockResponse),
+        responseRaw: false,
+        responseStream: false,
+        abortController,
+        totalTimeout: 20,
+      });
+
+      await expect(promise).resolves.toEqual({ data: "test" });
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(abortController.signal.aborted).toBe(false);
+    });
+
+    it("should not time out once the response has been handed over", async () => {
+      const abortController = new AbortController();
+
+      const promise = new ApiPromise({
+        responsePromise: Promise.resolve(mockResponse),
+        responseRaw: false,
+        responseStream: false,
+        abortController,
+        totalTimeout: 20,
+      });
+
+      await expect(promise.asResponse()).resolves.toBe(mockResponse);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(abortController.signal.aborted).toBe(false);
+    });
+
+    it("should not time out once the request failed", async () => {
+      const abortController = new AbortController();
+
+      void new ApiPromise({
+        responsePromise: Promise.reject(new Error("failed")),
+        responseRaw: false,
+        responseStream: false,
+        abortController,
+        totalTimeout: 20,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(abortController.signal.aborted).toBe(false);
+    });
+
+    it("should not keep the process alive for unconsumed responses", () => {
+      const unref = jest.fn();
+      const setTimeoutSpy = jest
+        .spyOn(global, "setTimeout")
+        .mockReturnValue({ unref } as any);
+
+      void new ApiPromise({
+        responsePromise: new Promise(() => {}),
+        responseRaw: false,
+        responseStream: false,
+        totalTimeout: 20,
+      });
+
+      expect(unref).toHaveBeenCalled();
+      setTimeoutSpy.mockRestore();
+    });
+  });
+
   describe("EventSourceParser", () => {
     it("should handle empty messages", async () => {
       const mockNodeStream = {
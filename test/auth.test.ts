@@ -482,6 +482,39 @@ describe("Auth providers", () => {
       });
     });
 
+    describe("custom transport", () => {
+      it("should send token requests through the provided fetch", async () => {
+        const customFetch = jest.fn().mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({ access_token: "custom-token", expires_in: 60 }),
+        });
+
+        const auth = new OAuth2({
+          baseUrl: "https://auth.example.com",
+          defaultTokenUrl: "/oauth/token",
+          accessTokenPointer: "/access_token",
+          expiresInPointer: "/expires_in",
+          credentialsLocation: "request_body",
+          bodyContent: "form",
+          requestMutator: new AuthBearer(),
+          fetch: customFetch,
+        });
+
+        const result = await auth.refresh({
+          clientId: "client",
+          clientSecret: "secret",
+        });
+
+        expect(customFetch).toHaveBeenCalledWith(
+          "https://auth.example.com/oauth/token",
+          expect.objectContaining({ method: "POST" })
+        );
+        expect(mockNodeFetch).not.toHaveBeenCalled();
+        expect(result.accessToken).toBe("custom-token");
+      });
+    });
+
     describe("setValue method", () => {
       it("should throw error when called", () => {
         const auth = new OAuth2({
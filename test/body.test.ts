@@ -0,0 +1,95 @@
+import { Readable } from "node:stream";
+import { BodyNotReplayableError, ReplayableBody } from "../src/body";
+
+describe("ReplayableBody", () => {
+  const readAll = async (body: any): Promise<string> => {
+    if (Buffer.isBuffer(body)) {
+      return body.toString();
+    } else if (typeof body?.getReader === "function") {
+      return new Response(body as ReadableStream).text();
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of body as Readable) {
+      chunks.push(Buffer.from(chunk as Buffer));
+    }
+    return Buffer.concat(chunks).toString();
+  };
+
+  it("should reuse bodies that can be read repeatedly", async () => {
+    const init = { method: "POST", body: "payload" };
+    const body = new ReplayableBody({ init });
+
+    expect(await body.nextInit()).toBe(init);
+    expect(await body.nextInit()).toBe(init);
+  });
+
+  it("should buffer node streams within the buffer size", async () => {
+    const body = new ReplayableBody({
+      init: { method: "POST", body: Readable.from(["ab", "cd"]) as any },
+      maxBufferSize: 4,
+    });
+
+    const first = await body.nextInit();
+    const second = await body.nextInit();
+    expect(Buffer.isBuffer(first.body)).toBe(true);
+    expect(await readAll(first.body)).toBe("abcd");
+    expect(await readAll(second.body)).toBe("abcd");
+  });
+
+  it("should buffer web streams within the buffer size", async () => {
+    const body = new ReplayableBody({
+      init: { method: "POST", body: new Blob(["abcd"]).stream() },
+    });
+
+    const first = await body.nextInit();
+    const second = await body.nextInit();
+    expect(first.body).toBeInstanceOf(Uint8Array);
+    expect(new TextDecoder().decode(second.body as Uint8Array)).toBe("abcd");
+  });
+
+  it("should send streams exceeding the buffer size once", async () => {
+    const body = new ReplayableBody({
+      init: { method: "POST", body: Readable.from(["ab", "cd", "ef"]) as any },
+      maxBufferSize: 3,
+    });
+
+    const first = await body.nextInit();
+    expect(await readAll(first.body)).toBe("abcdef");
+    await expect(body.nextInit()).rejects.toThrow(BodyNotReplayableError);
+  });
+
+  it("should send web streams exceeding the buffer size once", async () => {
+    const body = new ReplayableBody({
+      init: { method: "POST", body: new Blob(["abcdef"]).stream() },
+      maxBufferSize: 0,
+    });
+
+    const first = await body.nextInit();
+    expect(await readAll(first.body)).toBe("abcdef");
+    await expect(body.nextInit()).rejects.toThrow(BodyNotReplayableError);
+  });
+
+  it("should rebuild bodies created by a factory", async () => {
+    const rebuild = jest.fn(() => ({
+      body: "rebuilt",
+      headers: { "content-type": "text/plain; charset=utf-8" },
+    }));
+    const init = {
+      method: "POST",
+      body: "original",
+      headers: { "content-type": "text/plain", "if-match": "v1" },
+    };
+    const body = new ReplayableBody({ init, rebuild });
+
+    expect(await body.nextInit()).toBe(init);
+    expect(await body.nextInit()).toEqual({
+      method: "POST",
+      body: "rebuilt",
+      headers: {
+        "content-type": "text/plain; charset=utf-8",
+        "if-match": "v1",
+      },
+    });
+    expect(rebuild).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,259 @@
+import { HttpCache, MemoryCacheStore } from "../src/cache";
+
+describe("HttpCache", () => {
+  const url = "https://api.example.com/users";
+  const getInit: RequestInit = { method: "GET", headers: {} };
+  let now: number;
+
+  const respond = (
+    body: string | null,
+    headers: Record<string, string>,
+    status: number = 200
+  ) => new Response(body, { status, headers });
+
+  beforeEach(() => {
+    now = Date.parse("2026-01-01T00:00:00Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should serve fresh responses from the cache", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockResolvedValue(respond("cached", { "cache-control": "max-age=60" }));
+
+    await cache.handle(url, getInit, send);
+    now += 30_000;
+    const response = await cache.handle(url, getInit, send);
+
+    expect(await response.text()).toBe("cached");
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should revalidate stale responses and reuse the body on 304", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(
+        respond("original", {
+          "cache-control": "max-age=60",
+          etag: '"v1"',
+          "last-modified": "Wed, 31 Dec 2025 00:00:00 GMT",
+        })
+      )
+      .mockResolvedValueOnce(respond(null, { etag: '"v1"' }, 304));
+
+    await cache.handle(url, getInit, send);
+    now += 61_000;
+    const response = await cache.handle(url, getInit, send);
+
+    expect(send).toHaveBeenLastCalledWith(
+      {
+        "if-none-match": '"v1"',
+        "if-modified-since": "Wed, 31 Dec 2025 00:00:00 GMT",
+      },
+      false
+    );
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("original");
+  });
+
+  it("should replace stale responses that changed", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(respond("v1", { etag: '"v1"' }))
+      .mockResolvedValueOnce(respond("v2", { etag: '"v2"' }));
+
+    await cache.handle(url, getInit, send);
+    const response = await cache.handle(url, getInit, send);
+
+    expect(await response.text()).toBe("v2");
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should serve stale responses while revalidating in the background", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(
+        respond("v1", {
+          "cache-control": "max-age=10, stale-while-revalidate=60",
+        })
+      )
+      .mockResolvedValueOnce(respond("v2", { "cache-control": "max-age=10" }));
+
+    await cache.handle(url, getInit, send);
+    now += 30_000;
+    const stale = await cache.handle(url, getInit, send);
+    expect(await stale.text()).toBe("v1");
+    expect(send).toHaveBeenLastCalledWith({}, true);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const fresh = await cache.handle(url, getInit, send);
+    expect(await fresh.text()).toBe("v2");
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should compute freshness from Expires and Date", async () => {
+    const cache = new HttpCache();
+    const send = jest.fn().mockImplementation(async () =>
+      respond("body", {
+        date: new Date(now).toUTCString(),
+        expires: new Date(now + 60_000).toUTCString(),
+      })
+    );
+
+    await cache.handle(url, getInit, send);
+    now += 59_000;
+    await cache.handle(url, getInit, send);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    now += 2_000;
+    await cache.handle(url, getInit, send);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not store no-store responses", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockImplementation(async () =>
+        respond("body", { "cache-control": "no-store, max-age=60" })
+      );
+
+    await cache.handle(url, getInit, send);
+    await cache.handle(url, getInit, send);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should honor request no-cache and no-store directives", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockImplementation(async () =>
+        respond("body", { "cache-control": "max-age=60", etag: '"v1"' })
+      );
+
+    await cache.handle(url, getInit, send);
+    await cache.handle(
+      url,
+      { method: "GET", headers: { "Cache-Control": "no-cache" } },
+      send
+    );
+    expect(send).toHaveBeenLastCalledWith({ "if-none-match": '"v1"' }, false);
+
+    await cache.handle(
+      url,
+      { method: "GET", headers: { "Cache-Control": "no-store" } },
+      send
+    );
+    expect(send).toHaveBeenLastCalledWith({}, false);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("should respect the Vary header", async () => {
+    const cache = new HttpCache();
+    const send = jest.fn().mockImplementation(async () =>
+      respond("body", {
+        "cache-control": "max-age=60",
+        vary: "Accept-Language",
+      })
+    );
+
+    const init = (lang: string): RequestInit => ({
+      method: "GET",
+      headers: { "Accept-Language": lang },
+    });
+    await cache.handle(url, init("en"), send);
+    await cache.handle(url, init("en"), send);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await cache.handle(url, init("fr"), send);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not share responses between credentials", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockImplementation(async () =>
+        respond("body", { "cache-control": "max-age=60" })
+      );
+
+    await cache.handle(
+      url,
+      { method: "GET", headers: { Authorization: "Bearer a" } },
+      send
+    );
+    await cache.handle(
+      url,
+      { method: "GET", headers: { Authorization: "Bearer b" } },
+      send
+    );
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should key responses on all headers except per-request ones", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockImplementation(async () =>
+        respond("body", { "cache-control": "max-age=60" })
+      );
+    const keyed = (apiKey: string, idempotencyKey: string): RequestInit => ({
+      method: "GET",
+      headers: { "X-Api-Key": apiKey, "Idempotency-Key": idempotencyKey },
+    });
+
+    await cache.handle(url, keyed("a", "1"), send);
+    await cache.handle(url, keyed("a", "2"), send);
+    await cache.handle(url, keyed("b", "3"), send);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should invalidate stored responses after unsafe requests", async () => {
+    const cache = new HttpCache();
+    const send = jest
+      .fn()
+      .mockImplementation(async () =>
+        respond("body", { "cache-control": "max-age=60" })
+      );
+
+    await cache.handle(url, getInit, send);
+    await cache.handle(url, { method: "DELETE", headers: {} }, send);
+    await cache.handle(url, getInit, send);
+
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  describe("MemoryCacheStore", () => {
+    const entry = {
+      status: 200,
+      statusText: "OK",
+      headers: [],
+      body: null,
+      responseTime: 0,
+      vary: {},
+    };
+
+    it("should evict the least recently used entry", () => {
+      const store = new MemoryCacheStore(2);
+      store.set("a", entry);
+      store.set("b", entry);
+      store.get("a");
+      store.set("c", entry);
+
+      expect(store.get("a")).toBe(entry);
+      expect(store.get("b")).toBeUndefined();
+      expect(store.get("c")).toBe(entry);
+    });
+  });
+});
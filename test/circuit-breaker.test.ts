@@ -0,0 +1,156 @@
+import { CircuitBreaker, CircuitOpenError } from "../src/circuit-breaker";
+import { TimeoutError } from "../src/timeout";
+
+describe("CircuitBreaker", () => {
+  let now: number;
+
+  const send = (breaker: CircuitBreaker, failed: boolean) =>
+    breaker.acquire()(failed ? "failure" : "success");
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should open once the failure rate exceeds the threshold", () => {
+    const breaker = new CircuitBreaker("api", {
+      minimumRequests: 4,
+      failureRateThreshold: 0.5,
+    });
+
+    send(breaker, true);
+    send(breaker, true);
+    send(breaker, true);
+    expect(breaker.state).toBe("closed");
+
+    send(breaker, false);
+    expect(breaker.state).toBe("open");
+    expect(breaker.failureRate).toBe(0.75);
+  });
+
+  it("should only consider requests within the window", () => {
+    const breaker = new CircuitBreaker("api", {
+      minimumRequests: 2,
+      windowSize: 3,
+      failureRateThreshold: 0.6,
+    });
+
+    send(breaker, true);
+    send(breaker, false);
+    send(breaker, false);
+    send(breaker, true);
+    expect(breaker.state).toBe("closed");
+    expect(breaker.failureRate).toBeCloseTo(1 / 3);
+  });
+
+  it("should fail fast while open", () => {
+    const breaker = new CircuitBreaker("api", {
+      minimumRequests: 1,
+      resetTimeout: 1000,
+    });
+    send(breaker, true);
+
+    now += 400;
+    let error: unknown;
+    try {
+      breaker.acquire();
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ serviceName: "api", retryAfter: 600 });
+  });
+
+  it("should close after successful trial requests", () => {
+    const breaker = new CircuitBreaker("api", {
+      minimumRequests: 1,
+      resetTimeout: 1000,
+      halfOpenRequests: 2,
+    });
+    send(breaker, true);
+
+    now += 1000;
+    expect(breaker.state).toBe("half-open");
+    const first = breaker.acquire();
+    const second = breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    first("success");
+    expect(breaker.state).toBe("half-open");
+    second("success");
+    expect(breaker.state).toBe("closed");
+    expect(breaker.failureRate).toBe(0);
+  });
+
+  it("should reopen when a trial request fails", () => {
+    const breaker = new CircuitBreaker("api", {
+      minimumRequests: 1,
+      resetTimeout: 1000,
+    });
+    send(breaker, true);
+
+    now += 1000;
+    send(breaker, true);
+    expect(breaker.state).toBe("open");
+
+    now += 999;
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should release trial requests that were ignored", () => {
+    const breaker = new CircuitBreaker("api", {
+      minimumRequests: 1,
+      resetTimeout: 1000,
+    });
+    send(breaker, true);
+
+    now += 1000;
+    breaker.acquire()("ignored");
+    send(breaker, false);
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should discard outcomes of requests acquired before a state change", () => {
+    const breaker = new CircuitBreaker("api", { minimumRequests: 1 });
+    const slow = breaker.acquire();
+    send(breaker, true);
+
+    slow("success");
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should report state changes", () => {
+    const onStateChange = jest.fn();
+    const breaker = new CircuitBreaker("api", {
+      minimumRequests: 1,
+      resetTimeout: 1000,
+      onStateChange,
+    });
+
+    send(breaker, true);
+    now += 1000;
+    send(breaker, false);
+
+    expect(onStateChange.mock.calls.map(([change]) => change)).toEqual([
+      { serviceName: "api", from: "closed", to: "open", failureRate: 1 },
+      { serviceName: "api", from: "open", to: "half-open", failureRate: 1 },
+      { serviceName: "api", from: "half-open", to: "closed", failureRate: 0 },
+    ]);
+  });
+
+  it("should classify failures", () => {
+    const breaker = new CircuitBreaker("api", { failureStatusCodes: [503] });
+
+    expect(breaker.isFailure({ statusCode: 503 })).toBe(true);
+    expect(breaker.isFailure({ statusCode: 500 })).toBe(false);
+    expect(breaker.isFailure({ error: new TimeoutError("headers", 100) })).toBe(
+      true
+    );
+    expect(breaker.isFailure({ error: new Error("cancelled") })).toBe(false);
+  });
+});
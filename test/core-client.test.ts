@@ -1,11 +1,63 @@
-import { CoreClient, ApiError, CoreResourceClient } from "../src/index";
+import {
+  CoreClient,
+  ApiError,
+  CoreResourceClient,
+  AuthBearer,
+  AuthKey,
+  OAuth2,
+  TimeoutError,
+  CircuitOpenError,
+  BodyNotReplayableError,
+  ResponseValidationError,
+  csvDecoder,
+  Fetcher,
+  RetryContext,
+} from "../src/index";
+import { Readable } from "node:stream";
+import { getEventListeners } from "node:events";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
 import { RUNTIME } from "../src/runtime";
+import { z } from "zod";
 
 // Mock node-fetch
 import nodeFetch from "node-fetch";
 jest.mock("node-fetch");
 const mockFetch = nodeFetch as jest.MockedFunction<typeof nodeFetch>;
 
+// the actual node-fetch transport, sending requests to a local server
+const { default: actualNodeFetch } =
+  jest.requireActual<typeof import("node-fetch")>("node-fetch");
+const nodeFetchTransport: Fetcher = (url, init) =>
+  actualNodeFetch(url, init as any);
+
+/**
+ * Runs the test against a local server answering every request with the
+ * status, content type and body
+ */
+async function withServer(
+  respond: { status: number; contentType: string; body: string },
+  test: (baseUrl: string) => Promise<void>
+): Promise<void> {
+  const server = createServer((_req, res) => {
+    res.writeHead(respond.status, { "content-type": respond.contentType });
+    res.end(respond.body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await test(`http://127.0.0.1:${port}`);
+  } finally {
+    // stalled responses must not keep the server open
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+// larger than the buffers of node-fetch, so a response whose body (or
+// the body of its clone) is never read stalls
+const largeBody = JSON.stringify({ items: "x".repeat(300 * 1024) });
+
 describe("CoreClient", () => {
   let client: CoreClient;
   const baseUrl = "https://api.example.com";
@@ -103,6 +155,38 @@ describe("CoreClient", () => {
       );
     });
 
+    it("should handle QUERY request with a body", async () => {
+      const body = { filter: "active" };
+      const promise = client.makeRequest({
+        method: "query",
+        path: "/users",
+        body,
+        contentType: "application/json",
+      });
+
+      await promise;
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.example.com/users",
+        expect.objectContaining({
+          method: "QUERY",
+          body: JSON.stringify(body),
+        })
+      );
+    });
+
+    it("should handle HEAD request without parsing a body", async () => {
+      const result = await client.makeRequest({
+        method: "head",
+        path: "/users",
+      });
+
+      expect(result).toBeNull();
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.example.com/users",
+        expect.objectContaining({ method: "HEAD" })
+      );
+    });
+
     it("should add default headers", async () => {
       const promise = client.makeRequest({
         method: "get",
@@ -151,6 +235,43 @@ describe("CoreClient", () => {
       );
     });
 
+    it("should handle path parameters", async () => {
+      const promise = client.makeRequest({
+        method: "get",
+        path: "/users/{id}/posts{filter}",
+        pathParams: { id: "a/b", filter: { tag: "new" } },
+        pathEncoding: {
+          style: { filter: "matrix" },
+          explode: { filter: true },
+        },
+      });
+
+      await promise;
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.example.com/users/a%2Fb/posts;tag=new",
+        expect.any(Object)
+      );
+    });
+
+    it("should handle header and cookie parameters", async () => {
+      const promise = client.makeRequest({
+        method: "get",
+        path: "/users",
+        headers: { Cookie: "existing=1" },
+        headerParams: { "X-Ids": [1, 2], "X-Filter": { a: 1 }, "X-None": null },
+        headerEncoding: { explode: { "X-Filter": true } },
+        cookieParams: { prefs: { theme: "dark" }, tags: ["a", "b"] },
+        cookieEncoding: { explode: { tags: false } },
+      });
+
+      await promise;
+      const headers = mockFetch.mock.calls[0]?.[1]?.headers as any;
+      expect(headers["X-Ids"]).toBe("1,2");
+      expect(headers["X-Filter"]).toBe("a=1");
+      expect(headers).not.toHaveProperty("X-None");
+      expect(headers["Cookie"]).toBe("existing=1; theme=dark; tags=a,b");
+    });
+
     it("should handle timeout", async () => {
       const timeoutClient = new CoreClient({ baseUrl, timeout: 5000 });
 
@@ -472,6 +593,288 @@ describe("CoreClient", () => {
       expect(mockFetch).toHaveBeenCalledTimes(1);
     });
 
+    it("should wait according to the Retry-After header", async () => {
+      const rateLimitedResponse = {
+        ok: false,
+        status: 429,
+        headers: {
+          get: (name: string) => (name === "retry-after" ? "0" : null),
+        },
+      };
+      const successResponse = {
+        ok: true,
+        status: 200,
+        json: jest.fn().mockResolvedValue({ success: true }),
+        headers: { get: jest.fn().mockReturnValue("application/json") },
+      };
+      mockFetch
+        .mockResolvedValueOnce(rateLimitedResponse as any)
+        .mockResolvedValueOnce(successResponse as any);
+
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 1, initialDelay: 60000 },
+      });
+
+      const result = await clientWithRetries.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry on connection errors and succeed", async () => {
+      const successResponse = {
+        ok: true,
+        status: 200,
+        json: jest.fn().mockResolvedValue({ success: true }),
+        headers: { get: jest.fn().mockReturnValue("application/json") },
+      };
+      mockFetch
+        .mockRejectedValueOnce(
+          Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })
+        )
+        .mockResolvedValueOnce(successResponse as any);
+
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 2, initialDelay: 10 },
+      });
+
+      const result = await clientWithRetries.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry on header timeouts and rethrow once exhausted", async () => {
+      mockFetch.mockImplementation(
+        (_url, init) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () =>
+              reject(new Error("The user aborted a request."))
+            );
+          })
+      );
+
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        timeout: 10,
+        retries: { maxRetries: 2, initialDelay: 10 },
+      });
+
+      await expect(
+        clientWithRetries.makeRequest({ method: "get", path: "/users" })
+      ).rejects.toThrow(TimeoutError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry errors that are not transient", async () => {
+      mockFetch.mockRejectedValue(new TypeError("Invalid URL"));
+
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 2, initialDelay: 10 },
+      });
+
+      await expect(
+        clientWithRetries.makeRequest({ method: "get", path: "/users" })
+      ).rejects.toThrow("Invalid URL");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry according to the shouldRetry hook", async () => {
+      const lockTimeout = () =>
+        new Response(JSON.stringify({ code: "LOCK_TIMEOUT" }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        }) as any;
+      mockFetch
+        .mockResolvedValueOnce(lockTimeout())
+        .mockResolvedValueOnce(lockTimeout());
+      const onRetry = jest.fn();
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: {
+          maxRetries: 1,
+          initialDelay: 10,
+          shouldRetry: async ({ response, retryable }) => {
+            if (response?.status !== 400) {
+              return retryable;
+            }
+            const body = (await response.json()) as { code?: string };
+            return body.code === "LOCK_TIMEOUT";
+          },
+          onRetry,
+        },
+      });
+
+      const error = await clientWithRetries
+        .makeRequest({ method: "get", path: "/users" })
+        .catch((err: unknown) => err);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attempt: 1,
+          delay: 10,
+          cfg: expect.objectContaining({ path: "/users" }),
+        })
+      );
+      // the body of the returned response has not been read by the hook
+      expect(error).toBeInstanceOf(ApiError);
+      await expect((error as ApiError).response.json()).resolves.toEqual({
+        code: "LOCK_TIMEOUT",
+      });
+    });
+
+    it("should not stall large responses returned after running hooks", async () => {
+      await withServer(
+        { status: 200, contentType: "application/json", body: largeBody },
+        async (serverUrl) => {
+          const shouldRetry = jest.fn(({ response }: RetryContext) => {
+            // accessing the response creates a copy whose body is not read
+            expect(response?.status).toBe(200);
+            return false;
+          });
+          const hookClient = new CoreClient({
+            baseUrl: serverUrl,
+            fetch: nodeFetchTransport,
+            retries: { shouldRetry, onRetry: () => undefined },
+            totalTimeout: 2000,
+          });
+
+          const result = await hookClient.makeRequest({
+            method: "get",
+            path: "/items",
+          });
+
+          expect(result).toEqual(JSON.parse(largeBody));
+          expect(shouldRetry).toHaveBeenCalledTimes(1);
+        }
+      );
+    });
+
+    it("should not stall large responses read by hooks", async () => {
+      await withServer(
+        { status: 400, contentType: "application/json", body: largeBody },
+        async (serverUrl) => {
+          const shouldRetry = jest.fn(async ({ response }: RetryContext) => {
+            expect(await response?.json()).toEqual(JSON.parse(largeBody));
+            return false;
+          });
+          const hookClient = new CoreClient({
+            baseUrl: serverUrl,
+            fetch: nodeFetchTransport,
+            retries: { shouldRetry, onRetry: () => undefined },
+            totalTimeout: 2000,
+          });
+
+          const error = await hookClient
+            .makeRequest({ method: "get", path: "/items" })
+            .catch((err: unknown) => err);
+
+          expect(error).toBeInstanceOf(ApiError);
+          await expect((error as ApiError).response.json()).resolves.toEqual(
+            JSON.parse(largeBody)
+          );
+          expect(shouldRetry).toHaveBeenCalledTimes(1);
+        }
+      );
+    });
+
+    it("should only read the body once a hook reads it", async () => {
+      const response = new Response("{}", { status: 503 }) as any;
+      const arrayBuffer = jest.spyOn(response, "arrayBuffer");
+      mockFetch.mockResolvedValue(response);
+      const hookClient = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 1, initialDelay: 1, onRetry: () => false },
+      });
+
+      await expect(
+        hookClient.makeRequest({ method: "get", path: "/users" })
+      ).rejects.toThrow(ApiError);
+      expect(arrayBuffer).not.toHaveBeenCalled();
+    });
+
+    it("should let onRetry override the delay or stop retrying", async () => {
+      mockFetch.mockImplementation(
+        async () => new Response(null, { status: 503 }) as any
+      );
+      const delays: number[] = [];
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: {
+          maxRetries: 5,
+          initialDelay: 10000,
+          onRetry: ({ attempt, delay }) => {
+            delays.push(delay);
+            return attempt < 3 ? 1 : false;
+          },
+        },
+      });
+
+      await expect(
+        clientWithRetries.makeRequest({ method: "get", path: "/users" })
+      ).rejects.toThrow(ApiError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([10000, 10000, 10000]);
+    });
+
+    it("should share the retry budget between requests", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 } as any);
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 5, initialDelay: 1 },
+        retryBudget: { percentCanRetry: 0.5, minRetriesPerSecond: 0.2 },
+      });
+
+      // 2 retries from the minimum rate plus 1 for every 2 requests
+      for (const path of ["/a", "/b", "/c", "/d"]) {
+        await expect(
+          clientWithRetries.makeRequest({ method: "get", path })
+        ).rejects.toThrow(ApiError);
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(8);
+    });
+
+    it("should report the number of attempts through withResponse", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503 } as any)
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ success: true }), {
+            status: 200,
+            headers: { "content-type": "application/json" },
+          }) as any
+        );
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 2, initialDelay: 1 },
+      });
+
+      const { data, response, meta } = await clientWithRetries
+        .makeRequest({ method: "get", path: "/users", query: ["page=2"] })
+        .withResponse();
+
+      expect(data).toEqual({ success: true });
+      expect(response.status).toBe(200);
+      expect(meta).toMatchObject({
+        url: "https://api.example.com/users?page=2",
+        status: 200,
+        attempts: 2,
+        hedges: 0,
+      });
+    });
+
     it("should override client retry config with request-level config", async () => {
       const failureResponse = {
         ok: false,
@@ -493,6 +896,7 @@ describe("CoreClient", () => {
         clientWithRetries.makeRequest({
           method: "post",
           path: "/users",
+          headers: { "Idempotency-Key": "create-user-1" },
           opts: {
             retries: {
               maxRetries: 2,
@@ -507,6 +911,1500 @@ describe("CoreClient", () => {
     });
   });
 
+  describe("idempotency", () => {
+    const failureResponse = { ok: false, status: 503 };
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue(failureResponse as any);
+    });
+
+    it("should not retry unsafe methods without an Idempotency-Key", async () => {
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 2, initialDelay: 10 },
+      });
+
+      await expect(
+        clientWithRetries.makeRequest({ method: "post", path: "/users" })
+      ).rejects.toThrow(ApiError);
+      await expect(
+        clientWithRetries.makeRequest({ method: "patch", path: "/users/1" })
+      ).rejects.toThrow(ApiError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry idempotent methods freely", async () => {
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 1, initialDelay: 10 },
+      });
+
+      await expect(
+        clientWithRetries.makeRequest({ method: "put", path: "/users/1" })
+      ).rejects.toThrow(ApiError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should generate an Idempotency-Key shared by every attempt", async () => {
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 2, initialDelay: 10, idempotencyKey: true },
+      });
+
+      await expect(
+        clientWithRetries.makeRequest({ method: "post", path: "/users" })
+      ).rejects.toThrow(ApiError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      const keys = mockFetch.mock.calls.map(
+        ([, init]) => (init?.headers as any)["Idempotency-Key"]
+      );
+      expect(keys[0]).toEqual(expect.any(String));
+      expect(new Set(keys).size).toBe(1);
+    });
+
+    it("should keep a caller supplied Idempotency-Key", async () => {
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 1, initialDelay: 10, idempotencyKey: true },
+      });
+
+      await expect(
+        clientWithRetries.makeRequest({
+          method: "post",
+          path: "/users",
+          opts: { additionalHeaders: { "idempotency-key": "abc" } },
+        })
+      ).rejects.toThrow(ApiError);
+
+      const headers = mockFetch.mock.calls[0]?.[1]?.headers as any;
+      expect(headers["idempotency-key"]).toBe("abc");
+      expect(headers).not.toHaveProperty("Idempotency-Key");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not generate keys for idempotent methods", async () => {
+      const clientWithRetries = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 0, idempotencyKey: true },
+      });
+
+      await expect(
+        clientWithRetries.makeRequest({ method: "get", path: "/users" })
+      ).rejects.toThrow(ApiError);
+
+      const headers = mockFetch.mock.calls[0]?.[1]?.headers as any;
+      expect(headers).not.toHaveProperty("Idempotency-Key");
+    });
+  });
+
+  describe("middleware", () => {
+    const okResponse = {
+      ok: true,
+      json: jest.fn().mockResolvedValue({ success: true }),
+      status: 200,
+      headers: {
+        get: jest.fn().mockReturnValue("application/json"),
+      },
+    };
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue(okResponse as any);
+    });
+
+    it("should run middleware in registration order", async () => {
+      const calls: string[] = [];
+      const mwClient = new CoreClient({
+        baseUrl,
+        middleware: [
+          async (cfg, next) => {
+            calls.push("first:before");
+            const res = await next(cfg);
+            calls.push("first:after");
+            return res;
+          },
+        ],
+      });
+      mwClient.use(async (cfg, next) => {
+        calls.push("second:before");
+        const res = await next(cfg);
+        calls.push("second:after");
+        return res;
+      });
+
+      await mwClient.makeRequest({ method: "get", path: "/users" });
+
+      expect(calls).toEqual([
+        "first:before",
+        "second:before",
+        "second:after",
+        "first:after",
+      ]);
+    });
+
+    it("should allow mutating the request config", async () => {
+      client.use((cfg, next) =>
+        next({ ...cfg, headers: { ...cfg.headers, "x-tenant": "acme" } })
+      );
+
+      await client.makeRequest({ method: "get", path: "/users" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.example.com/users",
+        expect.objectContaining({
+          headers: expect.objectContaining({ "x-tenant": "acme" }),
+        })
+      );
+    });
+
+    it("should allow short-circuiting the request", async () => {
+      client.use(async () => okResponse as any);
+
+      const result = await client.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should allow replacing a failed response before ApiError is thrown", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 401 } as any)
+        .mockResolvedValueOnce(okResponse as any);
+      client.use(async (cfg, next) => {
+        const res = await next(cfg);
+        return res.status === 401 ? next(cfg) : res;
+      });
+
+      const result = await client.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should apply auth once to each request sent by middleware", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 401 } as any)
+        .mockResolvedValueOnce(okResponse as any);
+      const authClient = new CoreClient({
+        baseUrl,
+        auths: {
+          key: new AuthKey("api_key", "query", "s3cret"),
+          header: new AuthKey("x-api-key", "header", "s3cret"),
+        },
+      });
+      authClient.use(async (cfg, next) => {
+        const res = await next(cfg);
+        return res.status === 401 ? next(cfg) : res;
+      });
+
+      await authClient.makeRequest({
+        method: "get",
+        path: "/a",
+        auth: ["key", "header"],
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        "https://api.example.com/a?api_key=s3cret",
+        expect.objectContaining({
+          headers: expect.objectContaining({ "x-api-key": "s3cret" }),
+        })
+      );
+    });
+
+    it("should allow intercepting errors", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("socket hang up"));
+      client.use(async (cfg, next) => {
+        try {
+          return await next(cfg);
+        } catch {
+          return okResponse as any;
+        }
+      });
+
+      const result = await client.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  describe("fetch transport", () => {
+    const okResponse = {
+      ok: true,
+      json: jest.fn().mockResolvedValue({ success: true }),
+      status: 200,
+      headers: {
+        get: jest.fn().mockReturnValue("application/json"),
+      },
+    };
+
+    it("should send requests through the provided fetch", async () => {
+      const customFetch = jest.fn().mockResolvedValue(okResponse);
+      const fetchClient = new CoreClient({ baseUrl, fetch: customFetch });
+
+      const result = await fetchClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(customFetch).toHaveBeenCalledWith(
+        "https://api.example.com/users",
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should share the provided fetch with OAuth2 providers", async () => {
+      const customFetch = jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ access_token: "token" }),
+        })
+        .mockResolvedValueOnce(okResponse);
+      const fetchClient = new CoreClient({
+        baseUrl,
+        fetch: customFetch,
+        auths: {
+          oauth: new OAuth2({
+            baseUrl,
+            defaultTokenUrl: "/token",
+            accessTokenPointer: "/access_token",
+            expiresInPointer: "/expires_in",
+            credentialsLocation: "request_body",
+            bodyContent: "form",
+            requestMutator: new AuthBearer(),
+            form: { clientId: "id", clientSecret: "secret" },
+          }),
+        },
+      });
+
+      await fetchClient.makeRequest({
+        method: "get",
+        path: "/users",
+        auth: ["oauth"],
+      });
+
+      expect(customFetch).toHaveBeenNthCalledWith(
+        1,
+        "https://api.example.com/token",
+        expect.any(Object)
+      );
+      expect(customFetch).toHaveBeenNthCalledWith(
+        2,
+        "https://api.example.com/users",
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: "Bearer token" }),
+        })
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should use the fetch of the client applying a shared OAuth2 provider", async () => {
+      const tokenResponse = () => ({
+        ok: true,
+        json: () => Promise.resolve({ access_token: "token" }),
+      });
+      const oauth = new OAuth2({
+        baseUrl,
+        defaultTokenUrl: "/token",
+        accessTokenPointer: "/access_token",
+        expiresInPointer: "/expires_in",
+        credentialsLocation: "request_body",
+        bodyContent: "form",
+        requestMutator: new AuthBearer(),
+        form: { clientId: "id", clientSecret: "secret" },
+      });
+      const firstFetch = jest.fn().mockResolvedValue(okResponse);
+      const secondFetch = jest
+        .fn()
+        .mockResolvedValueOnce(tokenResponse())
+        .mockResolvedValue(okResponse);
+      new CoreClient({ baseUrl, fetch: firstFetch, auths: { oauth } });
+      const secondClient = new CoreClient({
+        baseUrl,
+        fetch: secondFetch,
+        auths: { oauth },
+      });
+
+      await secondClient.makeRequest({
+        method: "get",
+        path: "/users",
+        auth: ["oauth"],
+      });
+
+      expect(oauth.props.fetch).toBeUndefined();
+      expect(firstFetch).not.toHaveBeenCalled();
+      expect(secondFetch).toHaveBeenNthCalledWith(
+        1,
+        "https://api.example.com/token",
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should pass a signal linked to the caller's signal to fetch", async () => {
+      const controller = new AbortController();
+      let fetchSignal: AbortSignal | undefined;
+      mockFetch.mockImplementation((_url, init) => {
+        fetchSignal = init?.signal as AbortSignal;
+        return new Promise((_resolve, reject) => {
+          fetchSignal?.addEventListener("abort", () =>
+            reject(new Error("aborted"))
+          );
+        });
+      });
+
+      const promise = client.makeRequest({
+        method: "get",
+        path: "/users",
+        opts: { signal: controller.signal },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(fetchSignal?.aborted).toBe(false);
+      controller.abort();
+
+      await expect(promise).rejects.toThrow("aborted");
+      expect(fetchSignal?.aborted).toBe(true);
+    });
+
+    it("should not send a request when the signal is already aborted", async () => {
+      mockFetch.mockImplementation((_url, init) =>
+        init?.signal?.aborted
+          ? Promise.reject(new Error("aborted"))
+          : Promise.resolve({ ok: true, status: 204 } as any)
+      );
+
+      const promise = client.makeRequest({
+        method: "get",
+        path: "/users",
+        opts: { signal: AbortSignal.abort() },
+      });
+
+      await expect(promise).rejects.toThrow("aborted");
+    });
+
+    it("should cancel pending retry sleeps via ApiPromise.cancel", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 } as any);
+      const retryClient = new CoreClient({
+        baseUrl,
+        retries: { maxRetries: 3, initialDelay: 60000 },
+      });
+
+      const promise = retryClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      promise.cancel(new Error("cancelled"));
+
+      await expect(promise).rejects.toThrow("cancelled");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should unlink the caller's signal once requests complete", async () => {
+      const controller = new AbortController();
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 500 } as any)
+        .mockImplementation(
+          async () =>
+            new Response(JSON.stringify({ id: 1 }), {
+              headers: { "content-type": "application/json" },
+            }) as any
+        );
+
+      await expect(
+        client.makeRequest({
+          method: "get",
+          path: "/users",
+          opts: { signal: controller.signal },
+        })
+      ).rejects.toThrow(ApiError);
+      for (let i = 0; i < 15; i++) {
+        await client.makeRequest({
+          method: "get",
+          path: "/users",
+          opts: { signal: controller.signal },
+        });
+      }
+      await client
+        .makeRequest({
+          method: "get",
+          path: "/users",
+          opts: { signal: controller.signal },
+        })
+        .asResponse();
+
+      expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+    });
+
+    it("should abort reading the body when cancelled after headers", async () => {
+      let transportSignal: AbortSignal | undefined;
+      mockFetch.mockImplementation(async (_url, init) => {
+        transportSignal = init?.signal as AbortSignal;
+        return new Response(new ReadableStream(), {
+          headers: { "content-type": "application/json" },
+        }) as any;
+      });
+
+      const promise = client.makeRequest({ method: "get", path: "/users" });
+      await promise.asResponse();
+      expect(transportSignal?.aborted).toBe(false);
+      promise.cancel(new Error("cancelled"));
+
+      expect(transportSignal?.aborted).toBe(true);
+    });
+
+    it("should abort reading the body when the total timeout expires after headers", async () => {
+      let transportSignal: AbortSignal | undefined;
+      mockFetch.mockImplementation(async (_url, init) => {
+        transportSignal = init?.signal as AbortSignal;
+        return new Response(new ReadableStream(), {
+          headers: { "content-type": "application/json" },
+        }) as any;
+      });
+
+      await expect(
+        client.makeRequest({
+          method: "get",
+          path: "/users",
+          opts: { totalTimeout: 50 },
+        })
+      ).rejects.toThrow(TimeoutError);
+
+      expect(transportSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe("timeouts", () => {
+    const hangingFetch = (_url: any, init: any) =>
+      new Promise<any>((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () =>
+          reject(new Error("The user aborted a request."))
+        );
+      });
+
+    it("should raise a TimeoutError when headers are not received in time", async () => {
+      mockFetch.mockImplementation(hangingFetch);
+      const timeoutClient = new CoreClient({ baseUrl, timeout: 20 });
+
+      const promise = timeoutClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      await expect(promise).rejects.toThrow(TimeoutError);
+      await expect(promise).rejects.toMatchObject({
+        phase: "headers",
+        timeout: 20,
+      });
+    });
+
+    it("should raise a TimeoutError when the body is not read in time", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: { get: () => "application/json" },
+        json: () => new Promise(() => {}),
+      } as any);
+
+      const promise = client.makeRequest({
+        method: "get",
+        path: "/users",
+        opts: { totalTimeout: 20 },
+      });
+
+      await expect(promise).rejects.toMatchObject({
+        name: "TimeoutError",
+        phase: "total",
+      });
+    });
+
+    it("should apply the total timeout across retries", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 } as any);
+      const retryClient = new CoreClient({
+        baseUrl,
+        totalTimeout: 50,
+        retries: { maxRetries: 5, initialDelay: 60000 },
+      });
+
+      const promise = retryClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      await expect(promise).rejects.toMatchObject({ phase: "total" });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("request coalescing", () => {
+    const jsonResponse = (data: any) =>
+      new Response(JSON.stringify(data), {
+        headers: { "content-type": "application/json" },
+      }) as any;
+
+    it("should share a single request between concurrent identical GETs", async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ id: 1 }));
+      const coalesceClient = new CoreClient({ baseUrl, coalesce: true });
+
+      const results = await Promise.all([
+        coalesceClient.makeRequest({ method: "get", path: "/users/1" }),
+        coalesceClient.makeRequest({ method: "get", path: "/users/1" }),
+        coalesceClient.makeRequest({ method: "get", path: "/users/1" }),
+      ]);
+
+      expect(results).toEqual([{ id: 1 }, { id: 1 }, { id: 1 }]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not share requests with different headers", async () => {
+      mockFetch.mockImplementation(async () => jsonResponse({ id: 1 }));
+      const coalesceClient = new CoreClient({ baseUrl, coalesce: true });
+
+      await Promise.all([
+        coalesceClient.makeRequest({
+          method: "get",
+          path: "/users/1",
+          headers: { Authorization: "Bearer a" },
+        }),
+        coalesceClient.makeRequest({
+          method: "get",
+          path: "/users/1",
+          headers: { Authorization: "Bearer b" },
+        }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not share unsafe or sequential requests", async () => {
+      mockFetch.mockImplementation(async () => jsonResponse({ id: 1 }));
+      const coalesceClient = new CoreClient({ baseUrl, coalesce: true });
+
+      await Promise.all([
+        coalesceClient.makeRequest({ method: "post", path: "/users" }),
+        coalesceClient.makeRequest({ method: "post", path: "/users" }),
+      ]);
+      await coalesceClient.makeRequest({ method: "get", path: "/users" });
+      await coalesceClient.makeRequest({ method: "get", path: "/users" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should only coalesce when opted in", async () => {
+      mockFetch.mockImplementation(async () => jsonResponse({ id: 1 }));
+
+      await Promise.all([
+        client.makeRequest({ method: "get", path: "/users" }),
+        client.makeRequest({
+          method: "get",
+          path: "/users",
+          opts: { coalesce: true },
+        }),
+        client.makeRequest({
+          method: "get",
+          path: "/users",
+          opts: { coalesce: true },
+        }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share failures with every caller", async () => {
+      mockFetch.mockRejectedValue(new Error("connection reset"));
+      const coalesceClient = new CoreClient({ baseUrl, coalesce: true });
+
+      const results = await Promise.allSettled([
+        coalesceClient.makeRequest({ method: "get", path: "/users" }),
+        coalesceClient.makeRequest({ method: "get", path: "/users" }),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give every caller a response of its own", async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ id: 1 }));
+      const coalesceClient = new CoreClient({ baseUrl, coalesce: true });
+
+      const first = coalesceClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+      const second = coalesceClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      // the second caller never reads its body
+      const response = await second.asResponse();
+      expect(await first).toEqual({ id: 1 });
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toEqual({ id: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only abort the shared request once every caller cancelled", async () => {
+      let fetchSignal: AbortSignal | undefined;
+      let respond: (() => void) | undefined;
+      mockFetch.mockImplementation((_url, init) => {
+        fetchSignal = init?.signal as AbortSignal;
+        return new Promise((resolve) => {
+          respond = () => resolve(jsonResponse({ id: 1 }));
+        });
+      });
+      const coalesceClient = new CoreClient({ baseUrl, coalesce: true });
+
+      const first = coalesceClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+      const second = coalesceClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+      const third = coalesceClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      first.cancel(new Error("page closed"));
+      await expect(first).rejects.toThrow("page closed");
+      expect(fetchSignal?.aborted).toBe(false);
+
+      respond?.();
+      await expect(second).resolves.toEqual({ id: 1 });
+      await expect(third).resolves.toEqual({ id: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not stall callers on large bodies with node-fetch", async () => {
+      await withServer(
+        { status: 200, contentType: "application/json", body: largeBody },
+        async (serverUrl) => {
+          const coalesceClient = new CoreClient({
+            baseUrl: serverUrl,
+            coalesce: true,
+            fetch: nodeFetchTransport,
+            // fails stalled requests rather than the whole test run
+            totalTimeout: 2000,
+          });
+
+          const first = coalesceClient.makeRequest({
+            method: "get",
+            path: "/items",
+          });
+          const second = coalesceClient.makeRequest({
+            method: "get",
+            path: "/items",
+          });
+
+          await second.asResponse();
+          expect(await first).toEqual(JSON.parse(largeBody));
+        }
+      );
+    });
+
+    it("should abort the shared request once every caller cancelled", async () => {
+      let fetchSignal: AbortSignal | undefined;
+      mockFetch.mockImplementation((_url, init) => {
+        fetchSignal = init?.signal as AbortSignal;
+        return new Promise(() => {});
+      });
+      const coalesceClient = new CoreClient({ baseUrl, coalesce: true });
+
+      const first = coalesceClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+      const second = coalesceClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      first.cancel(new Error("cancelled"));
+      second.cancel(new Error("cancelled"));
+
+      await expect(first).rejects.toThrow("cancelled");
+      await expect(second).rejects.toThrow("cancelled");
+      expect(fetchSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe("http cache", () => {
+    it("should serve cached responses through ApiPromise", async () => {
+      mockFetch.mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ id: 1 }), {
+            status: 200,
+            headers: {
+              "content-type": "application/json",
+              "cache-control": "max-age=60",
+            },
+          }) as any
+      );
+      const cacheClient = new CoreClient({ baseUrl, cache: true });
+
+      const first = await cacheClient.makeRequest({
+        method: "get",
+        path: "/users/1",
+      });
+      const second = await cacheClient.makeRequest({
+        method: "get",
+        path: "/users/1",
+      });
+      await cacheClient.makeRequest({
+        method: "get",
+        path: "/users/1",
+        opts: { cache: false },
+      });
+
+      expect(first).toEqual({ id: 1 });
+      expect(second).toEqual({ id: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not serve responses cached for another api key", async () => {
+      mockFetch.mockImplementation(
+        async (_url, init) =>
+          new Response(
+            JSON.stringify({
+              tenant: (init?.headers as Record<string, string>)["x-api-key"],
+            }),
+            {
+              status: 200,
+              headers: {
+                "content-type": "application/json",
+                "cache-control": "max-age=60",
+              },
+            }
+          ) as any
+      );
+      const apiKey = new AuthKey("x-api-key", "header", "tenant-a");
+      const cacheClient = new CoreClient({
+        baseUrl,
+        cache: true,
+        auths: { apiKey },
+      });
+
+      const first = await cacheClient.makeRequest({
+        method: "get",
+        path: "/users/1",
+        auth: ["apiKey"],
+      });
+      apiKey.setValue("tenant-b");
+      const second = await cacheClient.makeRequest({
+        method: "get",
+        path: "/users/1",
+        auth: ["apiKey"],
+      });
+
+      expect(first).toEqual({ tenant: "tenant-a" });
+      expect(second).toEqual({ tenant: "tenant-b" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    it("should fail fast without retrying once the breaker opens", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 } as any);
+      const onStateChange = jest.fn();
+      const breakerClient = new CoreClient({
+        baseUrl: { api: "https://api.example.com" },
+        retries: { maxRetries: 5, initialDelay: 1 },
+        circuitBreaker: { minimumRequests: 2, onStateChange },
+      });
+
+      await expect(
+        breakerClient.makeRequest({
+          method: "get",
+          path: "/users",
+          serviceName: "api",
+        })
+      ).rejects.toThrow(CircuitOpenError);
+      await expect(
+        breakerClient.makeRequest({
+          method: "get",
+          path: "/users",
+          serviceName: "api",
+        })
+      ).rejects.toThrow(CircuitOpenError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(breakerClient.circuitBreaker("api")?.state).toBe("open");
+      expect(onStateChange).toHaveBeenCalledWith(
+        expect.objectContaining({ serviceName: "api", to: "open" })
+      );
+    });
+
+    it("should keep a separate breaker per service", async () => {
+      mockFetch.mockImplementation(async (url) =>
+        url === "https://down.example.com/"
+          ? ({ ok: false, status: 500 } as any)
+          : (new Response("{}", {
+              status: 200,
+              headers: { "content-type": "application/json" },
+            }) as any)
+      );
+      const breakerClient = new CoreClient({
+        baseUrl: { down: "https://down.example.com", up: "https://up.test" },
+        circuitBreaker: { minimumRequests: 1 },
+      });
+
+      await expect(
+        breakerClient.makeRequest({
+          method: "get",
+          path: "/",
+          serviceName: "down",
+        })
+      ).rejects.toThrow(ApiError);
+      await breakerClient.makeRequest({
+        method: "get",
+        path: "/",
+        serviceName: "up",
+      });
+
+      expect(breakerClient.circuitBreaker("down")?.state).toBe("open");
+      expect(breakerClient.circuitBreaker("up")?.state).toBe("closed");
+    });
+
+    it("should not create breakers unless enabled", () => {
+      expect(client.circuitBreaker()).toBeUndefined();
+    });
+  });
+
+  describe("rate limiting", () => {
+    const okResponse = () =>
+      new Response("{}", {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      }) as any;
+
+    it("should queue requests exceeding the concurrency limit", async () => {
+      let active = 0;
+      let maxActive = 0;
+      mockFetch.mockImplementation(async () => {
+        maxActive = Math.max(maxActive, ++active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return okResponse();
+      });
+      const limitedClient = new CoreClient({
+        baseUrl,
+        rateLimit: { maxConcurrency: 2 },
+      });
+
+      await Promise.all(
+        [1, 2, 3, 4, 5].map((id) =>
+          limitedClient.makeRequest({ method: "get", path: `/users/${id}` })
+        )
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+      expect(maxActive).toBe(2);
+    });
+
+    it("should apply service limits in addition to client limits", async () => {
+      mockFetch.mockImplementation(() => new Promise(() => {}));
+      const limitedClient = new CoreClient({
+        baseUrl: { api: "https://api.example.com", auth: "https://auth.test" },
+        rateLimit: { maxConcurrency: 3 },
+        serviceRateLimits: { api: { maxConcurrency: 1 } },
+      });
+
+      for (const serviceName of ["api", "api", "auth", "auth"]) {
+        limitedClient
+          .makeRequest({ method: "get", path: "/", serviceName })
+          .catch(() => {});
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(mockFetch.mock.calls.map(([url]) => url).sort()).toEqual([
+        "https://api.example.com/",
+        "https://auth.test/",
+        "https://auth.test/",
+      ]);
+    });
+
+    it("should time out requests waiting in the queue", async () => {
+      mockFetch.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return okResponse();
+      });
+      const limitedClient = new CoreClient({
+        baseUrl,
+        rateLimit: { maxConcurrency: 1 },
+      });
+
+      const first = limitedClient.makeRequest({ method: "get", path: "/a" });
+      const second = limitedClient.makeRequest({
+        method: "get",
+        path: "/b",
+        opts: { timeout: 10 },
+      });
+
+      await expect(second).rejects.toThrow(TimeoutError);
+      await expect(second).rejects.toMatchObject({ phase: "queue" });
+      await expect(first).resolves.toEqual({});
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should neither retry nor trip the breaker on queue timeouts", async () => {
+      mockFetch.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return okResponse();
+      });
+      const limitedClient = new CoreClient({
+        baseUrl,
+        rateLimit: { maxConcurrency: 1 },
+        retries: { maxRetries: 3, initialDelay: 1 },
+        circuitBreaker: { minimumRequests: 1, halfOpenRequests: 1 },
+      });
+
+      const first = limitedClient.makeRequest({ method: "get", path: "/a" });
+      const queued = [1, 2, 3].map((id) =>
+        limitedClient.makeRequest({
+          method: "get",
+          path: `/b/${id}`,
+          opts: { timeout: 10 },
+        })
+      );
+
+      for (const request of queued) {
+        await expect(request).rejects.toMatchObject({ phase: "queue" });
+      }
+      await first;
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(limitedClient.circuitBreaker()?.state).toBe("closed");
+      expect(limitedClient.circuitBreaker()?.failureRate).toBe(0);
+    });
+
+    it("should drop queued requests that are cancelled", async () => {
+      mockFetch.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return okResponse();
+      });
+      const limitedClient = new CoreClient({
+        baseUrl,
+        rateLimit: { maxConcurrency: 1 },
+      });
+      const controller = new AbortController();
+
+      const first = limitedClient.makeRequest({ method: "get", path: "/a" });
+      const second = limitedClient.makeRequest({
+        method: "get",
+        path: "/b",
+        opts: { signal: controller.signal },
+      });
+      controller.abort(new Error("cancelled"));
+
+      await expect(second).rejects.toThrow("cancelled");
+      await first;
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("hedging", () => {
+    const delayedResponse = (ms: number, init?: RequestInit) =>
+      new Promise<any>((resolve, reject) => {
+        const timeoutId = setTimeout(
+          () =>
+            resolve(
+              new Response("{}", {
+                status: 200,
+                headers: { "content-type": "application/json" },
+              })
+            ),
+          ms
+        );
+        init?.signal?.addEventListener("abort", () => {
+          clearTimeout(timeoutId);
+          reject(init.signal?.reason as Error);
+        });
+      });
+
+    it("should hedge slow requests using safe methods", async () => {
+      mockFetch
+        .mockImplementationOnce((_url, init) =>
+          delayedResponse(200, init as RequestInit)
+        )
+        .mockImplementationOnce((_url, init) =>
+          delayedResponse(5, init as RequestInit)
+        );
+      const onHedge = jest.fn();
+      const hedgingClient = new CoreClient({
+        baseUrl,
+        hedging: { delay: 10, onHedge },
+      });
+
+      const data = await hedgingClient.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      expect(data).toEqual({});
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onHedge).toHaveBeenCalledWith(
+        expect.objectContaining({ hedges: 1 })
+      );
+      expect(mockFetch.mock.calls[0]?.[1]?.signal?.aborted).toBe(true);
+    });
+
+    it("should not hedge unsafe methods or when disabled", async () => {
+      mockFetch.mockImplementation((_url, init) =>
+        delayedResponse(20, init as RequestInit)
+      );
+      const hedgingClient = new CoreClient({
+        baseUrl,
+        hedging: { delay: 1 },
+      });
+
+      await hedgingClient.makeRequest({ method: "post", path: "/users" });
+      await hedgingClient.makeRequest({
+        method: "get",
+        path: "/users",
+        opts: { hedging: false },
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("replayable bodies", () => {
+    const retries = { maxRetries: 1, initialDelay: 1 };
+    const headers = { "Idempotency-Key": "upload-1" };
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 } as any);
+    });
+
+    it("should resend buffered stream bodies", async () => {
+      const retryClient = new CoreClient({ baseUrl, retries });
+
+      await expect(
+        retryClient.makeRequest({
+          method: "post",
+          path: "/upload",
+          headers,
+          contentType: "application/octet-stream",
+          body: Readable.from(["file ", "contents"]),
+        })
+      ).rejects.toThrow(ApiError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      for (const [, init] of mockFetch.mock.calls) {
+        expect((init?.body as Buffer).toString()).toBe("file contents");
+      }
+    });
+
+    it("should recreate the body for every attempt using a factory", async () => {
+      const retryClient = new CoreClient({ baseUrl, retries });
+      const factory = jest.fn(() => ({ name: "upload" }));
+
+      await expect(
+        retryClient.makeRequest({
+          method: "post",
+          path: "/upload",
+          headers,
+          contentType: "multipart/form-data",
+          body: factory,
+        })
+      ).rejects.toThrow(ApiError);
+
+      expect(factory).toHaveBeenCalledTimes(2);
+      const [first, second] = mockFetch.mock.calls.map(([, init]) => init);
+      expect(second?.body).not.toBe(first?.body);
+      expect((second?.headers as any)["Idempotency-Key"]).toBe("upload-1");
+    });
+
+    it("should raise an error if the body cannot be replayed", async () => {
+      const retryClient = new CoreClient({
+        baseUrl,
+        retries,
+        replayBufferSize: 4,
+      });
+
+      await expect(
+        retryClient.makeRequest({
+          method: "post",
+          path: "/upload",
+          headers,
+          contentType: "application/octet-stream",
+          body: Readable.from(["file ", "contents"]),
+        })
+      ).rejects.toThrow(BodyNotReplayableError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("lazy execution", () => {
+    const okResponse = () =>
+      new Response(JSON.stringify({ id: 1 }), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      }) as any;
+
+    it("should only send the request once the promise is consumed", async () => {
+      mockFetch.mockImplementation(async () => okResponse());
+      const lazyClient = new CoreClient({ baseUrl, lazy: true });
+
+      const promise = lazyClient.makeRequest({ method: "get", path: "/users" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      expect(await promise).toEqual({ id: 1 });
+      expect(await promise).toEqual({ id: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply options changed before the request is sent", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503 } as any)
+        .mockImplementation(async () => okResponse());
+
+      const promise = client
+        .makeRequest({ method: "get", path: "/users", opts: { lazy: true } })
+        .withOptions({ additionalHeaders: { "x-tenant": "acme" } })
+        .retry({ initialDelay: 1 });
+      const { meta } = await promise.withResponse();
+
+      expect(meta.attempts).toBe(2);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.example.com/users",
+        expect.objectContaining({
+          headers: expect.objectContaining({ "x-tenant": "acme" }),
+        })
+      );
+      expect(() => promise.withOptions({ timeout: 10 })).toThrow(
+        "request options can only be changed before a lazy request is started"
+      );
+    });
+
+    it("should not send lazy requests cancelled before they started", async () => {
+      const promise = client.makeRequest({
+        method: "get",
+        path: "/users",
+        opts: { lazy: true },
+      });
+      promise.cancel(new Error("cancelled"));
+
+      await expect(promise).rejects.toThrow("cancelled");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should not allow changing the options of eager requests", () => {
+      mockFetch.mockImplementation(async () => okResponse());
+      const promise = client.makeRequest({ method: "get", path: "/users" });
+
+      expect(() => promise.retry()).toThrow(
+        "request options can only be changed before a lazy request is started"
+      );
+    });
+  });
+
+  describe("response validation", () => {
+    const responseSchema = z.object({ id: z.number() });
+    const driftedResponse = () =>
+      new Response(JSON.stringify({ id: "1" }), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      }) as any;
+
+    it("should reject invalid responses with the request config", async () => {
+      mockFetch.mockImplementation(async () => driftedResponse());
+
+      const promise = client.makeRequest({
+        method: "get",
+        path: "/users/1",
+        responseSchema,
+      });
+
+      await expect(promise).rejects.toThrow(ResponseValidationError);
+      await expect(promise).rejects.toMatchObject({
+        rawJson: { id: "1" },
+        status: 200,
+        request: expect.objectContaining({ method: "get", path: "/users/1" }),
+      });
+    });
+
+    it("should report invalid responses in warn mode", async () => {
+      mockFetch.mockImplementation(async () => driftedResponse());
+      const onValidationError = jest.fn();
+      const warnClient = new CoreClient({
+        baseUrl,
+        validation: "warn",
+        onValidationError,
+      });
+
+      const result = await warnClient.makeRequest({
+        method: "get",
+        path: "/users/1",
+        responseSchema,
+      });
+
+      expect(result).toEqual({ id: "1" });
+      expect(onValidationError).toHaveBeenCalledWith(
+        expect.any(ResponseValidationError)
+      );
+    });
+
+    it("should let the request config override the client mode", async () => {
+      mockFetch.mockImplementation(async () => driftedResponse());
+      const warnClient = new CoreClient({ baseUrl, validation: "warn" });
+
+      const result = await warnClient.makeRequest({
+        method: "get",
+        path: "/users/1",
+        responseSchema,
+        validation: "passthrough",
+      });
+
+      expect(result).toEqual({ id: "1" });
+    });
+  });
+
+  describe("per-status response schemas", () => {
+    const responseSchemas = {
+      "200": z.object({ id: z.number() }),
+      "201": z.object({ id: z.number(), location: z.string() }),
+      "4XX": z.object({ message: z.string() }),
+    };
+    const jsonResponse = (status: number, body: unknown) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json" },
+      }) as any;
+
+    it("should resolve to the status and data validated by its schema", async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse(201, { id: 1, location: "/users/1", extra: true })
+      );
+
+      const result = await client.makeRequest({
+        method: "post",
+        path: "/users",
+        responseSchemas,
+      });
+
+      expect(result).toEqual({
+        status: 201,
+        data: { id: 1, location: "/users/1" },
+      });
+    });
+
+    it("should parse error bodies into the ApiError", async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse(404, { message: "not found", code: 1 })
+      );
+
+      const error = await client
+        .makeRequest({ method: "get", path: "/users/1", responseSchemas })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect((error as ApiError).body).toEqual({ message: "not found" });
+      // the body of the response can still be read
+      await expect((error as ApiError).response.json()).resolves.toEqual({
+        message: "not found",
+        code: 1,
+      });
+    });
+
+    it("should keep raising an ApiError for error bodies failing validation", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(400, { error: "invalid" }));
+
+      const error = await client
+        .makeRequest({ method: "get", path: "/users", responseSchemas })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect((error as ApiError).body).toEqual({ error: "invalid" });
+      expect((error as ApiError).cause).toBeInstanceOf(ResponseValidationError);
+      expect((error as ApiError).cause).toMatchObject({
+        status: 400,
+        rawJson: { error: "invalid" },
+      });
+    });
+
+    it("should keep raising an ApiError for bodies that cannot be decoded", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response("<html>Bad Gateway</html>", {
+            status: 502,
+            headers: { "content-type": "text/html" },
+          }) as any
+        )
+        .mockResolvedValueOnce(
+          new Response("{not json", {
+            status: 400,
+            headers: { "content-type": "application/json" },
+          }) as any
+        );
+      const schemas = { ...responseSchemas, default: z.object({}) };
+
+      const gatewayError = await client
+        .makeRequest({
+          method: "get",
+          path: "/users",
+          responseSchemas: schemas,
+        })
+        .catch((err: unknown) => err);
+      const malformedError = await client
+        .makeRequest({
+          method: "get",
+          path: "/users",
+          responseSchemas: schemas,
+        })
+        .catch((err: unknown) => err);
+
+      expect(gatewayError).toBeInstanceOf(ApiError);
+      expect((gatewayError as ApiError).body).toBe("<html>Bad Gateway</html>");
+      expect((gatewayError as ApiError).cause).toBeInstanceOf(
+        ResponseValidationError
+      );
+      expect(malformedError).toBeInstanceOf(ApiError);
+      expect((malformedError as ApiError).body).toBe("{not json");
+      expect((malformedError as ApiError).cause).toBeInstanceOf(SyntaxError);
+    });
+
+    it("should not validate empty error bodies", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 404 }) as any
+      );
+
+      const error = await client
+        .makeRequest({ method: "head", path: "/users/1", responseSchemas })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect((error as ApiError).body).toBeUndefined();
+      expect((error as ApiError).cause).toBeUndefined();
+    });
+
+    it("should not stall on large error bodies with node-fetch", async () => {
+      await withServer(
+        { status: 400, contentType: "application/json", body: largeBody },
+        async (serverUrl) => {
+          const nodeFetchClient = new CoreClient({
+            baseUrl: serverUrl,
+            fetch: nodeFetchTransport,
+            totalTimeout: 2000,
+          });
+
+          const error = await nodeFetchClient
+            .makeRequest({
+              method: "get",
+              path: "/items",
+              responseSchemas: { "4XX": z.object({ items: z.string() }) },
+            })
+            .catch((err: unknown) => err);
+
+          expect(error).toBeInstanceOf(ApiError);
+          expect((error as ApiError).body).toEqual(JSON.parse(largeBody));
+          await expect((error as ApiError).response.json()).resolves.toEqual(
+            JSON.parse(largeBody)
+          );
+        }
+      );
+    });
+
+    it("should not parse error bodies without a schema for their status", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(500, { message: "oops" }));
+
+      const error = await client
+        .makeRequest({ method: "get", path: "/users", responseSchemas })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect((error as ApiError).body).toBeUndefined();
+    });
+  });
+
+  describe("response decoders", () => {
+    const csvResponse = (status = 200) =>
+      new Response("id,name\n1,Jane\n", {
+        status,
+        headers: { "content-type": "text/csv; charset=utf-8" },
+      }) as any;
+
+    it("should decode responses using the registered decoder", async () => {
+      mockFetch.mockResolvedValueOnce(csvResponse());
+      const csvClient = new CoreClient({
+        baseUrl,
+        decoders: { "text/csv": csvDecoder },
+      });
+
+      const result = await csvClient.makeRequest({
+        method: "get",
+        path: "/users",
+        responseSchema: z.array(
+          z.object({ id: z.coerce.number(), name: z.string() })
+        ),
+      });
+
+      expect(result).toEqual([{ id: 1, name: "Jane" }]);
+    });
+
+    it("should validate decoded values using the response schema", async () => {
+      mockFetch.mockResolvedValueOnce(csvResponse());
+      client.registerDecoder("text/*", csvDecoder);
+
+      await expect(
+        client.makeRequest({
+          method: "get",
+          path: "/users",
+          responseSchema: z.array(z.object({ email: z.string() })),
+        })
+      ).rejects.toThrow(ResponseValidationError);
+    });
+
+    it("should decode error bodies", async () => {
+      mockFetch.mockResolvedValueOnce(csvResponse(422));
+      client.registerDecoder("text/csv", csvDecoder);
+
+      const error = await client
+        .makeRequest({
+          method: "get",
+          path: "/users",
+          responseSchemas: { "4XX": z.array(z.object({ name: z.string() })) },
+        })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect((error as ApiError).body).toEqual([{ name: "Jane" }]);
+    });
+
+    it("should fall back to the built-in handling", async () => {
+      mockFetch.mockResolvedValueOnce(csvResponse());
+      client.registerDecoder("application/xml", jest.fn());
+
+      const result = await client.makeRequest({
+        method: "get",
+        path: "/users",
+      });
+
+      expect(result).toBe("id,name\n1,Jane\n");
+    });
+  });
+
   describe("CoreResourceClient", () => {
     it("should create resource client with options", () => {
       const resourceClient = new CoreResourceClient(client, { lazyLoad: true });
@@ -0,0 +1,58 @@
+import { csvDecoder, DecoderRegistry, formDecoder } from "../src/decoders";
+
+describe("DecoderRegistry", () => {
+  const xml = jest.fn();
+  const text = jest.fn();
+
+  it("should match media types ignoring case and parameters", () => {
+    const registry = new DecoderRegistry({ "application/xml": xml });
+
+    expect(registry.find("Application/XML; charset=utf-8")).toBe(xml);
+    expect(registry.find("application/json")).toBeUndefined();
+    expect(registry.find("")).toBeUndefined();
+  });
+
+  it("should support wildcards and regular expressions", () => {
+    const registry = new DecoderRegistry({ "application/*+xml": xml });
+    registry.register(/^text\/(csv|tab-separated-values)$/, text);
+
+    expect(registry.find("application/atom+xml")).toBe(xml);
+    expect(registry.find("application/xml")).toBeUndefined();
+    expect(registry.find("text/tab-separated-values")).toBe(text);
+  });
+
+  it("should prefer the most recently registered decoder", () => {
+    const registry = new DecoderRegistry({ "text/*": text }).register(
+      "text/xml",
+      xml
+    );
+
+    expect(registry.find("text/xml")).toBe(xml);
+    expect(registry.find("text/plain")).toBe(text);
+  });
+});
+
+describe("formDecoder", () => {
+  it("should decode form bodies collecting repeated keys", async () => {
+    const response = new Response("name=Jane+Doe&tag=a&tag=b&tag=c") as any;
+
+    await expect(formDecoder(response)).resolves.toEqual({
+      name: "Jane Doe",
+      tag: ["a", "b", "c"],
+    });
+  });
+});
+
+describe("csvDecoder", () => {
+  it("should decode rows into records keyed by the header", async () => {
+    const response = new Response(
+      'id,name,notes\r\n1,Jane,"likes ""quotes"", commas"\r\n2,John,"multi\nline"\n3,Max'
+    ) as any;
+
+    await expect(csvDecoder(response)).resolves.toEqual([
+      { id: "1", name: "Jane", notes: 'likes "quotes", commas' },
+      { id: "2", name: "John", notes: "multi\nline" },
+      { id: "3", name: "Max", notes: "" },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { encodeCookieParam, encodeHeaderParam } from "../src/header";
+
+describe("header parameter encoding", () => {
+  describe("encodeHeaderParam", () => {
+    it("should encode primitive values", () => {
+      expect(encodeHeaderParam({ value: 5, explode: false })).toBe("5");
+      expect(encodeHeaderParam({ value: true, explode: false })).toBe("true");
+    });
+
+    it("should encode arrays", () => {
+      for (const explode of [true, false]) {
+        expect(encodeHeaderParam({ value: [3, 4, 5], explode })).toBe("3,4,5");
+      }
+    });
+
+    it("should encode objects with explode=false", () => {
+      const result = encodeHeaderParam({
+        value: { role: "admin", firstName: "Alex" },
+        explode: false,
+      });
+      expect(result).toBe("role,admin,firstName,Alex");
+    });
+
+    it("should encode objects with explode=true", () => {
+      const result = encodeHeaderParam({
+        value: { role: "admin", firstName: "Alex" },
+        explode: true,
+      });
+      expect(result).toBe("role=admin,firstName=Alex");
+    });
+  });
+
+  describe("encodeCookieParam", () => {
+    it("should encode primitive values", () => {
+      const result = encodeCookieParam({
+        name: "session",
+        value: "a b;c",
+        explode: true,
+      });
+      expect(result).toBe("session=a%20b%3Bc");
+    });
+
+    it("should encode arrays with explode=false", () => {
+      const result = encodeCookieParam({
+        name: "id",
+        value: [3, 4, 5],
+        explode: false,
+      });
+      expect(result).toBe("id=3,4,5");
+    });
+
+    it("should encode arrays with explode=true", () => {
+      const result = encodeCookieParam({
+        name: "id",
+        value: [3, 4, 5],
+        explode: true,
+      });
+      expect(result).toBe("id=3; id=4; id=5");
+    });
+
+    it("should encode objects with explode=false", () => {
+      const result = encodeCookieParam({
+        name: "id",
+        value: { role: "admin", firstName: "Alex" },
+        explode: false,
+      });
+      expect(result).toBe("id=role,admin,firstName,Alex");
+    });
+
+    it("should encode objects with explode=true", () => {
+      const result = encodeCookieParam({
+        name: "id",
+        value: { role: "admin", firstName: "Alex" },
+        explode: true,
+      });
+      expect(result).toBe("role=admin; firstName=Alex");
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { hedge } from "../src/hedging";
+
+describe("hedge", () => {
+  const cfg = { method: "get" as const, path: "/users" };
+
+  // resolves with the status after the given time (ms) unless aborted
+  const respondAfter = (ms: number, status: number, signal: AbortSignal) =>
+    new Promise<Response>((resolve, reject) => {
+      const timeoutId = setTimeout(
+        () => resolve(new Response(null, { status })),
+        ms
+      );
+      signal.addEventListener("abort", () => {
+        clearTimeout(timeoutId);
+        reject(signal.reason as Error);
+      });
+    });
+
+  it("should not hedge requests answered within the delay", async () => {
+    const onHedge = jest.fn();
+    const send = jest.fn((signal: AbortSignal) => respondAfter(5, 200, signal));
+
+    const response = await hedge({
+      send,
+      strategy: { delay: 50, onHedge },
+      cfg,
+    });
+
+    expect(response.status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(onHedge).not.toHaveBeenCalled();
+  });
+
+  it("should use the first response and abort the others", async () => {
+    const onHedge = jest.fn();
+    const signals: AbortSignal[] = [];
+    const send = jest.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return signals.length === 1
+        ? respondAfter(100, 500, signal)
+        : respondAfter(5, 200, signal);
+    });
+
+    const response = await hedge({
+      send,
+      strategy: { delay: 10, maxHedges: 3, onHedge },
+      cfg,
+    });
+
+    expect(response.status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(onHedge).toHaveBeenCalledWith({ hedges: 1, cfg });
+    expect(signals[0]?.aborted).toBe(true);
+    expect(signals[1]?.aborted).toBe(false);
+  });
+
+  it("should keep the winner linked to the signal once it responded", async () => {
+    const controller = new AbortController();
+    const signals: AbortSignal[] = [];
+    const send = jest.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return respondAfter(5, 200, signal);
+    });
+
+    await hedge({
+      send,
+      strategy: { delay: 50 },
+      cfg,
+      signal: controller.signal,
+    });
+    controller.abort(new Error("cancelled"));
+
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  it("should not hedge failed attempts", async () => {
+    const onHedge = jest.fn();
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("ECONNRESET"))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    await expect(
+      hedge({ send, strategy: { delay: 10, onHedge }, cfg })
+    ).rejects.toThrow("ECONNRESET");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(onHedge).not.toHaveBeenCalled();
+  });
+
+  it("should reject with the last error once all attempts failed", async () => {
+    // rejects with the message after the given time (ms)
+    const failAfter = (ms: number, message: string) =>
+      new Promise<Response>((_resolve, reject) =>
+        setTimeout(() => reject(new Error(message)), ms)
+      );
+    const send = jest
+      .fn()
+      .mockImplementationOnce(() => failAfter(30, "first"))
+      .mockImplementationOnce(() => failAfter(30, "second"));
+
+    await expect(
+      hedge({ send, strategy: { delay: 10, maxHedges: 1 }, cfg })
+    ).rejects.toThrow("second");
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should abort every attempt with the caller's signal", async () => {
+    const controller = new AbortController();
+    const send = jest.fn((signal: AbortSignal) =>
+      respondAfter(100, 200, signal)
+    );
+
+    const promise = hedge({
+      send,
+      strategy: { delay: 5, maxHedges: 2 },
+      cfg,
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 8));
+    controller.abort(new Error("cancelled"));
+
+    await expect(promise).rejects.toThrow("cancelled");
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
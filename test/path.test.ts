@@ -0,0 +1,212 @@
+import { encodePathParam, formatPath } from "../src/path";
+
+describe("path parameter encoding", () => {
+  describe("encodePathParam", () => {
+    describe("simple style", () => {
+      it("should encode primitive values", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: 5,
+          style: "simple",
+          explode: false,
+        });
+        expect(result).toBe("5");
+      });
+
+      it("should percent-encode reserved characters", () => {
+        const result = encodePathParam({
+          name: "name",
+          value: "a/b c?d#(e)",
+          style: "simple",
+          explode: false,
+        });
+        expect(result).toBe("a%2Fb%20c%3Fd%23%28e%29");
+      });
+
+      it("should encode arrays", () => {
+        for (const explode of [true, false]) {
+          const result = encodePathParam({
+            name: "ids",
+            value: [3, 4, "a,b"],
+            style: "simple",
+            explode,
+          });
+          expect(result).toBe("3,4,a%2Cb");
+        }
+      });
+
+      it("should encode objects with explode=false", () => {
+        const result = encodePathParam({
+          name: "filter",
+          value: { role: "admin", firstName: "Alex" },
+          style: "simple",
+          explode: false,
+        });
+        expect(result).toBe("role,admin,firstName,Alex");
+      });
+
+      it("should encode objects with explode=true", () => {
+        const result = encodePathParam({
+          name: "filter",
+          value: { role: "admin", firstName: "Alex" },
+          style: "simple",
+          explode: true,
+        });
+        expect(result).toBe("role=admin,firstName=Alex");
+      });
+
+      it("should encode empty values", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: undefined,
+          style: "simple",
+          explode: false,
+        });
+        expect(result).toBe("");
+      });
+    });
+
+    describe("label style", () => {
+      it("should encode primitive values", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: 5,
+          style: "label",
+          explode: false,
+        });
+        expect(result).toBe(".5");
+      });
+
+      it("should encode arrays with explode=false", () => {
+        const result = encodePathParam({
+          name: "ids",
+          value: [3, 4, 5],
+          style: "label",
+          explode: false,
+        });
+        expect(result).toBe(".3,4,5");
+      });
+
+      it("should encode arrays with explode=true", () => {
+        const result = encodePathParam({
+          name: "ids",
+          value: [3, 4, 5],
+          style: "label",
+          explode: true,
+        });
+        expect(result).toBe(".3.4.5");
+      });
+
+      it("should encode objects with explode=false", () => {
+        const result = encodePathParam({
+          name: "filter",
+          value: { role: "admin", firstName: "Alex" },
+          style: "label",
+          explode: false,
+        });
+        expect(result).toBe(".role,admin,firstName,Alex");
+      });
+
+      it("should encode objects with explode=true", () => {
+        const result = encodePathParam({
+          name: "filter",
+          value: { role: "admin", firstName: "Alex" },
+          style: "label",
+          explode: true,
+        });
+        expect(result).toBe(".role=admin.firstName=Alex");
+      });
+    });
+
+    describe("matrix style", () => {
+      it("should encode primitive values", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: 5,
+          style: "matrix",
+          explode: false,
+        });
+        expect(result).toBe(";id=5");
+      });
+
+      it("should encode empty values", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: "",
+          style: "matrix",
+          explode: false,
+        });
+        expect(result).toBe(";id");
+      });
+
+      it("should encode arrays with explode=false", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: [3, 4, 5],
+          style: "matrix",
+          explode: false,
+        });
+        expect(result).toBe(";id=3,4,5");
+      });
+
+      it("should encode arrays with explode=true", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: [3, 4, 5],
+          style: "matrix",
+          explode: true,
+        });
+        expect(result).toBe(";id=3;id=4;id=5");
+      });
+
+      it("should encode objects with explode=false", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: { role: "admin", firstName: "Alex" },
+          style: "matrix",
+          explode: false,
+        });
+        expect(result).toBe(";id=role,admin,firstName,Alex");
+      });
+
+      it("should encode objects with explode=true", () => {
+        const result = encodePathParam({
+          name: "id",
+          value: { role: "admin", firstName: "Alex" },
+          style: "matrix",
+          explode: true,
+        });
+        expect(result).toBe(";role=admin;firstName=Alex");
+      });
+    });
+
+    it("should throw on unknown styles", () => {
+      expect(() =>
+        encodePathParam({
+          name: "id",
+          value: 5,
+          style: "unknown" as any,
+          explode: false,
+        })
+      ).toThrow("path param style 'unknown' not implemented");
+    });
+  });
+
+  describe("formatPath", () => {
+    it("should replace every template in the path", () => {
+      const result = formatPath({
+        path: "/orgs/{org}/users/{id}{coords}",
+        params: { org: "my org", id: 5, coords: [1, 2] },
+        style: { coords: "matrix" },
+        explode: { coords: true },
+      });
+      expect(result).toBe("/orgs/my%20org/users/5;coords=1;coords=2");
+    });
+
+    it("should throw when a path param is missing", () => {
+      expect(() => formatPath({ path: "/users/{id}", params: {} })).toThrow(
+        "missing value for path param 'id'"
+      );
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { RateLimiter } from "../src/rate-limit";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const track = (promise: Promise<() => void>) => {
+    const state: { release?: () => void; error?: unknown } = {};
+    promise.then(
+      (release) => (state.release = release),
+      (err) => (state.error = err)
+    );
+    return state;
+  };
+
+  it("should allow bursts up to the bucket size", async () => {
+    const limiter = new RateLimiter({ requests: 2, interval: 1000 });
+
+    const first = track(limiter.acquire());
+    const second = track(limiter.acquire());
+    const third = track(limiter.acquire());
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(first.release).toBeDefined();
+    expect(second.release).toBeDefined();
+    expect(third.release).toBeUndefined();
+    expect(limiter.pending).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(third.release).toBeDefined();
+  });
+
+  it("should limit the number of concurrent requests", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+
+    const first = track(limiter.acquire());
+    const second = track(limiter.acquire());
+    await jest.advanceTimersByTimeAsync(0);
+    expect(second.release).toBeUndefined();
+
+    first.release?.();
+    first.release?.();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(second.release).toBeDefined();
+    expect(track(limiter.acquire()).release).toBeUndefined();
+  });
+
+  it("should reject queued requests that are aborted", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const controller = new AbortController();
+
+    track(limiter.acquire());
+    const aborted = track(limiter.acquire(controller.signal));
+    const next = track(limiter.acquire());
+    controller.abort(new Error("cancelled"));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(aborted.error).toEqual(new Error("cancelled"));
+    expect(next.release).toBeUndefined();
+    expect(limiter.pending).toBe(1);
+  });
+
+  it("should lower the remaining quota from response headers", async () => {
+    const limiter = new RateLimiter({ requests: 10, adaptive: true });
+
+    limiter.update({
+      statusCode: 200,
+      headers: new Headers({ "x-ratelimit-remaining": "1" }),
+    });
+    const first = track(limiter.acquire());
+    const second = track(limiter.acquire());
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(first.release).toBeDefined();
+    expect(second.release).toBeUndefined();
+  });
+
+  it("should pause until the quota resets once exhausted", async () => {
+    const limiter = new RateLimiter({ adaptive: true });
+
+    limiter.update({
+      statusCode: 200,
+      headers: new Headers({ ratelimit: "limit=100, remaining=0, reset=2" }),
+    });
+    const request = track(limiter.acquire());
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(request.release).toBeUndefined();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(request.release).toBeDefined();
+  });
+
+  it("should ignore response headers unless adaptive", async () => {
+    const limiter = new RateLimiter({ requests: 10 });
+
+    limiter.update({
+      statusCode: 429,
+      headers: new Headers({
+        "ratelimit-remaining": "0",
+        "ratelimit-reset": "5",
+      }),
+    });
+    const request = track(limiter.acquire());
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(request.release).toBeDefined();
+  });
+});
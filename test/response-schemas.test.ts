@@ -0,0 +1,45 @@
+import { z } from "zod";
+import {
+  selectResponseSchema,
+  type ErrorBody,
+  type StatusResponse,
+} from "../src/response-schemas";
+
+describe("selectResponseSchema", () => {
+  const ok = z.object({ id: z.number() });
+  const created = z.object({ id: z.number(), location: z.string() });
+  const clientError = z.object({ message: z.string() });
+  const fallback = z.unknown();
+
+  it("should prefer the exact status over its range and the default", () => {
+    const schemas = { "200": ok, "2XX": created, default: fallback };
+
+    expect(selectResponseSchema(schemas, 200)).toBe(ok);
+    expect(selectResponseSchema(schemas, 201)).toBe(created);
+    expect(selectResponseSchema(schemas, 500)).toBe(fallback);
+  });
+
+  it("should match lowercase ranges", () => {
+    expect(selectResponseSchema({ "4xx": clientError }, 404)).toBe(clientError);
+  });
+
+  it("should return undefined without a matching schema", () => {
+    expect(selectResponseSchema({ "200": ok }, 404)).toBeUndefined();
+    expect(selectResponseSchema(undefined, 200)).toBeUndefined();
+  });
+
+  it("should discriminate success responses on their status", () => {
+    const schemas = { "200": ok, "201": created, "4XX": clientError };
+    const response = { status: 201, data: { id: 1, location: "/1" } } as
+      | StatusResponse<typeof schemas>
+      | undefined;
+    const body: ErrorBody<typeof schemas> = { message: "not found" };
+
+    if (response?.status === 201) {
+      // `location` only exists on the 201 response
+      expect(response.data.location).toBe("/1");
+    }
+    expect(body.message).toBe("not found");
+    expect(selectResponseSchema(schemas, 201)).toBe(created);
+  });
+});
@@ -0,0 +1,63 @@
+import { RetryBudget } from "../src/retry-budget";
+
+describe("RetryBudget", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should allow the minimum number of retries without requests", () => {
+    const budget = new RetryBudget({ minRetriesPerSecond: 1, ttl: 2000 });
+
+    expect(budget.balance).toBe(2);
+    expect(budget.tryWithdraw()).toBe(true);
+    expect(budget.tryWithdraw()).toBe(true);
+    expect(budget.tryWithdraw()).toBe(false);
+  });
+
+  it("should allow retrying a percentage of the requests", () => {
+    const budget = new RetryBudget({
+      percentCanRetry: 0.25,
+      minRetriesPerSecond: 0,
+    });
+
+    for (let i = 0; i < 7; i++) {
+      budget.deposit();
+    }
+    expect(budget.balance).toBe(1);
+
+    budget.deposit();
+    expect(budget.balance).toBe(2);
+    expect(budget.tryWithdraw()).toBe(true);
+    expect(budget.tryWithdraw()).toBe(true);
+    expect(budget.tryWithdraw()).toBe(false);
+  });
+
+  it("should forget requests and retries after the ttl", () => {
+    const budget = new RetryBudget({
+      percentCanRetry: 1,
+      minRetriesPerSecond: 0,
+      ttl: 1000,
+    });
+
+    budget.deposit();
+    budget.deposit();
+    expect(budget.tryWithdraw()).toBe(true);
+
+    now += 500;
+    budget.deposit();
+    expect(budget.balance).toBe(2);
+
+    now += 500;
+    expect(budget.balance).toBe(1);
+
+    now += 500;
+    expect(budget.balance).toBe(0);
+  });
+});
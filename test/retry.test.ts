@@ -0,0 +1,368 @@
+import {
+  classifyError,
+  isIdempotentMethod,
+  isSafeMethod,
+  RetryConfig,
+  type RetryContext,
+} from "../src/retry";
+import { SharedBody } from "../src/fetch";
+import { RetryBudget } from "../src/retry-budget";
+import { TimeoutError } from "../src/timeout";
+
+describe("retry", () => {
+  describe("method classification", () => {
+    it("should treat read-only methods as safe", () => {
+      for (const method of ["get", "head", "options", "trace", "query"]) {
+        expect(isSafeMethod(method as any)).toBe(true);
+        expect(isIdempotentMethod(method as any)).toBe(true);
+      }
+    });
+
+    it("should treat put and delete as idempotent but not safe", () => {
+      for (const method of ["put", "delete"]) {
+        expect(isSafeMethod(method as any)).toBe(false);
+        expect(isIdempotentMethod(method as any)).toBe(true);
+      }
+    });
+
+    it("should treat post and patch as neither safe nor idempotent", () => {
+      for (const method of ["post", "patch"]) {
+        expect(isSafeMethod(method as any)).toBe(false);
+        expect(isIdempotentMethod(method as any)).toBe(false);
+      }
+    });
+  });
+
+  describe("calcServerDelay", () => {
+    const headers = (values: Record<string, string>) => ({
+      get: (name: string) => values[name] ?? null,
+    });
+    const now = Date.parse("2026-01-01T00:00:00Z");
+
+    beforeEach(() => {
+      jest.spyOn(Date, "now").mockReturnValue(now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should parse Retry-After in seconds", () => {
+      const retry = new RetryConfig({});
+      const delay = retry.calcServerDelay({
+        statusCode: 503,
+        headers: headers({ "retry-after": "3" }),
+      });
+      expect(delay).toBe(3000);
+    });
+
+    it("should parse Retry-After as an HTTP-date", () => {
+      const retry = new RetryConfig({});
+      const delay = retry.calcServerDelay({
+        statusCode: 429,
+        headers: headers({
+          "retry-after": new Date(now + 5000).toUTCString(),
+        }),
+      });
+      expect(delay).toBe(5000);
+    });
+
+    it("should cap the delay by maxDelay", () => {
+      const retry = new RetryConfig({ base: { maxDelay: 1000 } });
+      const delay = retry.calcServerDelay({
+        statusCode: 429,
+        headers: headers({ "retry-after": "120" }),
+      });
+      expect(delay).toBe(1000);
+    });
+
+    it("should never return a negative delay", () => {
+      const retry = new RetryConfig({});
+      const delay = retry.calcServerDelay({
+        statusCode: 429,
+        headers: headers({
+          "retry-after": new Date(now - 5000).toUTCString(),
+        }),
+      });
+      expect(delay).toBe(0);
+    });
+
+    it("should parse rate limit reset headers on 429 responses", () => {
+      const retry = new RetryConfig({});
+      expect(
+        retry.calcServerDelay({
+          statusCode: 429,
+          headers: headers({ "ratelimit-reset": "2" }),
+        })
+      ).toBe(2000);
+      expect(
+        retry.calcServerDelay({
+          statusCode: 429,
+          headers: headers({ "x-ratelimit-reset": String(now / 1000 + 4) }),
+        })
+      ).toBe(4000);
+      expect(
+        retry.calcServerDelay({
+          statusCode: 500,
+          headers: headers({ "x-ratelimit-reset": "2" }),
+        })
+      ).toBeUndefined();
+    });
+
+    it("should fall back to backoff when no header is present or disabled", () => {
+      expect(
+        new RetryConfig({}).calcServerDelay({
+          statusCode: 503,
+          headers: headers({}),
+        })
+      ).toBeUndefined();
+      expect(
+        new RetryConfig({
+          base: { respectRetryAfter: false },
+        }).calcServerDelay({
+          statusCode: 503,
+          headers: headers({ "retry-after": "1" }),
+        })
+      ).toBeUndefined();
+    });
+  });
+
+  describe("calcJitteredDelay", () => {
+    const config = (jitter: any, random: number) =>
+      new RetryConfig({
+        base: { jitter, initialDelay: 100, maxDelay: 1000 },
+        random: () => random,
+      });
+
+    it("should not randomize the delay by default", () => {
+      const retry = new RetryConfig({ random: () => 0.5 });
+      expect(retry.calcJitteredDelay({ delay: 400, prevDelay: 400 })).toBe(400);
+    });
+
+    it("should apply full jitter", () => {
+      expect(
+        config("full", 0.25).calcJitteredDelay({ delay: 400, prevDelay: 400 })
+      ).toBe(100);
+    });
+
+    it("should apply equal jitter", () => {
+      expect(
+        config("equal", 0.5).calcJitteredDelay({ delay: 400, prevDelay: 400 })
+      ).toBe(300);
+      expect(
+        config("equal", 0).calcJitteredDelay({ delay: 400, prevDelay: 400 })
+      ).toBe(200);
+    });
+
+    it("should apply decorrelated jitter", () => {
+      // between initialDelay and 3x the previous delay
+      expect(
+        config("decorrelated", 0.5).calcJitteredDelay({
+          delay: 400,
+          prevDelay: 200,
+        })
+      ).toBe(350);
+      // capped by maxDelay
+      expect(
+        config("decorrelated", 0.99).calcJitteredDelay({
+          delay: 400,
+          prevDelay: 900,
+        })
+      ).toBe(1000);
+    });
+  });
+
+  describe("classifyError", () => {
+    it("should classify system errors by code", () => {
+      const nodeFetchError = Object.assign(new Error("socket hang up"), {
+        code: "ECONNRESET",
+      });
+      const undiciError = Object.assign(new TypeError("fetch failed"), {
+        cause: Object.assign(new Error("getaddrinfo"), { code: "ENOTFOUND" }),
+      });
+      const connectTimeout = Object.assign(new TypeError("fetch failed"), {
+        cause: { code: "UND_ERR_CONNECT_TIMEOUT" },
+      });
+
+      expect(classifyError(nodeFetchError)).toBe("connection");
+      expect(classifyError(undiciError)).toBe("connection");
+      expect(classifyError(connectTimeout)).toBe("timeout");
+    });
+
+    it("should classify browser network errors", () => {
+      expect(classifyError(new TypeError("Failed to fetch"))).toBe(
+        "connection"
+      );
+    });
+
+    it("should classify timeouts by phase", () => {
+      expect(classifyError(new TimeoutError("headers", 100))).toBe("timeout");
+      expect(classifyError(new TimeoutError("total", 100))).toBeUndefined();
+    });
+
+    it("should not classify other errors", () => {
+      const abortError = Object.assign(new Error("aborted"), {
+        name: "AbortError",
+      });
+      expect(classifyError(abortError)).toBeUndefined();
+      expect(classifyError(new TypeError("Invalid URL"))).toBeUndefined();
+      expect(classifyError("error")).toBeUndefined();
+    });
+  });
+
+  describe("shouldRetry", () => {
+    const connectionError = Object.assign(new Error("reset"), {
+      code: "ECONNRESET",
+    });
+
+    it("should retry configured error kinds", () => {
+      const retry = new RetryConfig({ base: { maxRetries: 1 } });
+      expect(retry.shouldRetry({ attempt: 1, error: connectionError })).toBe(
+        true
+      );
+      expect(retry.shouldRetry({ attempt: 2, error: connectionError })).toBe(
+        false
+      );
+    });
+
+    it("should only retry methods that are not idempotent with a key", () => {
+      const retry = new RetryConfig({});
+      const args = { attempt: 1, statusCode: 503 };
+      expect(retry.shouldRetry({ ...args, method: "post" })).toBe(false);
+      expect(
+        retry.shouldRetry({ ...args, method: "post", hasIdempotencyKey: true })
+      ).toBe(true);
+      expect(retry.shouldRetry({ ...args, method: "delete" })).toBe(true);
+    });
+
+    it("should not retry error kinds that are not configured", () => {
+      const retry = new RetryConfig({ base: { errorKinds: ["timeout"] } });
+      expect(retry.shouldRetry({ attempt: 1, error: connectionError })).toBe(
+        false
+      );
+      expect(
+        retry.shouldRetry({
+          attempt: 1,
+          error: new TimeoutError("headers", 10),
+        })
+      ).toBe(true);
+    });
+  });
+
+  describe("decideRetry", () => {
+    const context = {
+      attempt: 1,
+      cfg: { method: "get" as const, path: "/users" },
+      delay: 100,
+    };
+
+    it("should keep the default decision and delay without hooks", async () => {
+      const retry = new RetryConfig({});
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBe(100);
+      await expect(
+        retry.decideRetry({ retryable: false, context })
+      ).resolves.toBeUndefined();
+    });
+
+    it("should let the predicate override the decision", async () => {
+      const shouldRetry = jest
+        .fn()
+        .mockReturnValueOnce(true)
+        .mockResolvedValueOnce(false)
+        .mockReturnValueOnce(undefined);
+      const retry = new RetryConfig({ base: { shouldRetry } });
+
+      await expect(
+        retry.decideRetry({ retryable: false, context })
+      ).resolves.toBe(100);
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBeUndefined();
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBe(100);
+      expect(shouldRetry).toHaveBeenCalledWith({ ...context, retryable: true });
+    });
+
+    it("should let onRetry override the delay or stop retrying", async () => {
+      const onRetry = jest
+        .fn()
+        .mockReturnValueOnce(undefined)
+        .mockResolvedValueOnce(250)
+        .mockReturnValueOnce(false);
+      const retry = new RetryConfig({
+        base: { onRetry: () => 0 },
+        override: { onRetry },
+      });
+
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBe(100);
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBe(250);
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBeUndefined();
+      await retry.decideRetry({ retryable: false, context });
+      expect(onRetry).toHaveBeenCalledTimes(3);
+    });
+
+    it("should give each hook a copy of the response sharing its body", async () => {
+      const response = new Response('{"id":1}', { status: 503 });
+      const arrayBuffer = jest.spyOn(response, "arrayBuffer");
+      const read = async ({ response }: RetryContext) => {
+        expect(await response?.json()).toEqual({ id: 1 });
+        return undefined;
+      };
+      const retry = new RetryConfig({
+        base: { shouldRetry: read, onRetry: read },
+      });
+      const body = new SharedBody(response);
+
+      await expect(
+        retry.decideRetry({
+          retryable: true,
+          context: { ...context, response },
+          body,
+        })
+      ).resolves.toBe(100);
+      await expect((await body.settle()).json()).resolves.toEqual({ id: 1 });
+      expect(arrayBuffer).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop retrying once the retry budget is exhausted", async () => {
+      const onRetry = jest.fn();
+      const budget = new RetryBudget({ minRetriesPerSecond: 0.1, ttl: 10000 });
+      const retry = new RetryConfig({ base: { onRetry }, budget });
+
+      await expect(
+        retry.decideRetry({ retryable: false, context })
+      ).resolves.toBeUndefined();
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBe(100);
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBeUndefined();
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not spend the retry budget on retries stopped by onRetry", async () => {
+      const onRetry = jest.fn().mockReturnValueOnce(false);
+      const budget = new RetryBudget({ minRetriesPerSecond: 0.1, ttl: 10000 });
+      const retry = new RetryConfig({ base: { onRetry }, budget });
+
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBeUndefined();
+      expect(budget.balance).toBe(1);
+      await expect(
+        retry.decideRetry({ retryable: true, context })
+      ).resolves.toBe(100);
+      expect(budget.balance).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { ResponseValidationError, validateResponse } from "../src/validation";
+
+describe("validateResponse", () => {
+  const schema = z.object({ id: z.number(), name: z.string() });
+  const request = { method: "get" as const, path: "/users/{id}" };
+
+  it("should return the parsed data of valid responses", () => {
+    const result = validateResponse({
+      schema: z.object({ id: z.number() }),
+      rawJson: { id: 1, extra: true },
+      status: 200,
+    });
+
+    expect(result).toEqual({ id: 1 });
+  });
+
+  it("should throw a ResponseValidationError in strict mode", () => {
+    const rawJson = { id: "1", name: "Test" };
+
+    let error: unknown;
+    try {
+      validateResponse({ schema, rawJson, status: 200, request });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    const validationError = error as ResponseValidationError;
+    expect(validationError.rawJson).toBe(rawJson);
+    expect(validationError.status).toBe(200);
+    expect(validationError.request).toBe(request);
+    expect(validationError.issues).toEqual([
+      expect.objectContaining({ path: ["id"], code: "invalid_type" }),
+    ]);
+    expect(validationError.message).toBe(
+      "200 response from get /users/{id} failed validation: id: Expected number, received string"
+    );
+  });
+
+  it("should skip validation in passthrough mode", () => {
+    const rawJson = { id: "1" };
+
+    const result = validateResponse({
+      schema,
+      rawJson,
+      status: 200,
+      mode: "passthrough",
+    });
+
+    expect(result).toBe(rawJson);
+  });
+
+  it("should report the error and return the raw data in warn mode", () => {
+    const rawJson = { id: 1 };
+    const onError = jest.fn();
+
+    const result = validateResponse({
+      schema,
+      rawJson,
+      status: 200,
+      mode: "warn",
+      onError,
+    });
+
+    expect(result).toBe(rawJson);
+    expect(onError).toHaveBeenCalledWith(expect.any(ResponseValidationError));
+    expect(
+      (onError.mock.calls[0][0] as ResponseValidationError).issues
+    ).toEqual([expect.objectContaining({ path: ["name"] })]);
+  });
+
+  it("should return the raw data in warn mode without an error handler", () => {
+    const rawJson: unknown[] = [];
+
+    const result = validateResponse({
+      schema,
+      rawJson,
+      status: 200,
+      mode: "warn",
+    });
+
+    expect(result).toBe(rawJson);
+  });
+});